@@ -1,21 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sessionManager } from '@/lib/session/manager';
-import { chatWithContext } from '@/lib/llm/chains/chat-chain';
+import { ChatStreamEvent, streamChatWithContext } from '@/lib/llm/chains/chat-chain';
+import type { ChatToolCall } from '@/lib/llm/chat-tools';
+import { modelRouting } from '@/lib/llm/routing';
+import { usageTracker } from '@/lib/llm/usage';
 import { rateLimiter, formatResetTime } from '@/lib/utils/rate-limiter';
+import { readUserApiKey, userKeyCoversStages } from '@/lib/llm/user-keys';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+function formatChatEvent({ event, data }: ChatStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
 /**
- * POST /api/chat - Chat with session context (streaming)
+ * POST /api/chat - Chat with session context
+ *
+ * Uses the X-User-Api-Key header, if sent.
+ * Available once data collection has finished, even if generation later failed or was
+ * cancelled. Replies use the data and the sections written so far (`pending` lists the
+ * rest; `analysisUnavailable` says they won't be written).
+ *
+ * Streams the reply as server-sent events: `delta` frames with text as the model
+ * produces it and `tool` frames as it calls tools, then `done` (full reply plus
+ * metadata such as web search use and tool calls) or `error`.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sessionId, message, customApiKey } = body;
+    const { sessionId, message } = body;
 
-    // Check rate limit (bypass if custom API key provided)
-    if (!customApiKey) {
+    // Only the header counts: the session ID is in the shareable report URL
+    const apiKey = readUserApiKey(request.headers) ?? undefined;
+    const paidByUser = apiKey !== undefined && userKeyCoversStages(['chat']);
+
+    // Check rate limit (bypass if the user's key pays)
+    if (!paidByUser) {
       const limitCheck = rateLimiter.checkLimit(request);
       if (!limitCheck.allowed) {
         const resetTime = limitCheck.limitType === 'minute' 
@@ -44,8 +65,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid message' }, { status: 400 });
     }
 
-    // Record request for rate limiting (only if using default API key)
-    if (!customApiKey) {
+    // Record request for rate limiting (only if using the server's key)
+    if (!paidByUser) {
       rateLimiter.recordRequest(request);
     }
 
@@ -54,71 +75,92 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    if (session.status !== 'completed') {
+    // Chat opens once the match data is in, whether or not the report gets finished
+    if (session.dataCollectedAt === null) {
       return NextResponse.json(
-        { error: 'Report generation not completed yet' },
+        {
+          error: session.status === 'pending' || session.status === 'generating'
+            ? 'Match data is still being collected'
+            : 'No match data was collected for this session',
+        },
         { status: 400 }
       );
     }
 
-    // Add user message to chat history
-    sessionManager.updateSession(sessionId, {
-      chatMessage: {
-        role: 'user',
-        content: message,
-        timestamp: Date.now(),
-      },
-    });
-
-    // Get updated session
-    const updatedSession = sessionManager.getSession(sessionId);
-    if (!updatedSession) {
-      return NextResponse.json({ error: 'Session lost' }, { status: 500 });
-    }
+    const route = modelRouting.getRoute('chat');
+    sessionManager.updateSession(sessionId, { stageModels: { chat: route } });
 
-    // Create streaming response
+    const askedAt = Date.now();
+    // Client disconnects stop the model stream
+    const abortController = new AbortController();
     const encoder = new TextEncoder();
-    const stream = new ReadableStream({
+
+    const stream = new ReadableStream<Uint8Array>({
       async start(controller) {
+        const send = (frame: ChatStreamEvent) => controller.enqueue(encoder.encode(formatChatEvent(frame)));
+
         try {
-          // Get AI response with streaming
-          const reply = await chatWithContext({
-            session: updatedSession,
+          const { metadata, events } = await streamChatWithContext({
+            session,
             userQuestion: message,
             enableWebSearch: true,
+            route,
+            apiKey,
+            onUsage: (usage) => usageTracker.recordCall(sessionId, 'chat', route, usage),
+            signal: abortController.signal,
           });
 
-          // Stream the response word by word for smooth effect
-          const words = reply.split(' ');
-          for (let i = 0; i < words.length; i++) {
-            const word = words[i] + (i < words.length - 1 ? ' ' : '');
-            controller.enqueue(encoder.encode(word));
-            
-            // Small delay between words for smooth streaming effect
-            await new Promise((resolve) => setTimeout(resolve, 30));
+          let reply = '';
+          const toolCalls = new Map<string, ChatToolCall>();
+          for await (const event of events) {
+            if (event.type === 'tool') {
+              toolCalls.set(event.call.id, event.call);
+              send({ event: 'tool', data: event.call });
+            } else {
+              reply += event.text;
+              send({ event: 'delta', data: { text: event.text } });
+            }
+          }
+
+          if (!reply.trim()) {
+            throw new Error('The model returned an empty reply');
           }
 
-          // Add assistant message to chat history
+          // Only a complete exchange goes into the history (and the next prompt)
+          sessionManager.updateSession(sessionId, {
+            chatMessage: { role: 'user', content: message, timestamp: askedAt },
+          });
           sessionManager.updateSession(sessionId, {
             chatMessage: {
               role: 'assistant',
               content: reply,
               timestamp: Date.now(),
+              ...(toolCalls.size > 0 && { toolCalls: [...toolCalls.values()] }),
+              ...(metadata.sources.length > 0 && { sources: metadata.sources }),
             },
           });
 
+          send({ event: 'done', data: { ...metadata, content: reply, toolCalls: [...toolCalls.values()] } });
           controller.close();
         } catch (error) {
-          console.error('Streaming error:', error);
-          controller.error(error);
+          // Nobody is listening any more
+          if (abortController.signal.aborted) return;
+
+          console.error('Chat streaming error:', error);
+          send({ event: 'error', data: { message: error instanceof Error ? error.message : 'Failed to process chat' } });
+          controller.close();
         }
       },
+      cancel() {
+        abortController.abort();
+      },
     });
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Transfer-Encoding': 'chunked',
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
         'X-Session-Id': sessionId,
       },
     });
@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DELETE, GET } from './route';
+import { generateReport } from '@/lib/orchestrator/generator';
+import { generationJobManager } from '@/lib/orchestrator/job-manager';
+import { sessionManager } from '@/lib/session/manager';
+import { sessionApiKeys } from '@/lib/session/api-key-store';
+import { blueprintRegistry } from '@/lib/report/blueprint-registry';
+
+vi.mock('@/lib/orchestrator/generator', () => ({
+  generateReport: vi.fn(),
+  regenerateSection: vi.fn(),
+}));
+
+function createSession(): string {
+  const blueprint = blueprintRegistry.getBlueprint()!;
+  return sessionManager.createSession({
+    fixtureId: 1208125,
+    blueprintId: blueprint.id,
+    blueprintVersion: blueprint.version,
+    audienceId: 'commentator',
+    localeId: 'en',
+  });
+}
+
+function cancelRequest(query: string): NextRequest {
+  return new NextRequest(`http://localhost/api/generate${query}`, { method: 'DELETE' });
+}
+
+describe('DELETE /api/generate', () => {
+  const generate = vi.mocked(generateReport);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Runs until it is aborted
+    generate.mockImplementation((_id, _progress, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    generate.mockReset();
+  });
+
+  it('cancels the running job', async () => {
+    const sessionId = createSession();
+    const job = generationJobManager.startJob(sessionId);
+
+    const response = await DELETE(cancelRequest(`?sessionId=${sessionId}`));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ sessionId, status: 'cancelling' });
+    expect(job.signal.aborted).toBe(true);
+    await vi.waitFor(() => expect(job.status).toBe('cancelled'));
+  });
+
+  it('returns 409 when nothing is running', async () => {
+    const sessionId = createSession();
+
+    const response = await DELETE(cancelRequest(`?sessionId=${sessionId}`));
+    expect(response.status).toBe(409);
+  });
+
+  it('rejects a missing or unknown session', async () => {
+    expect((await DELETE(cancelRequest(''))).status).toBe(400);
+    expect((await DELETE(cancelRequest('?sessionId=unknown'))).status).toBe(404);
+  });
+});
+
+describe('GET /api/generate', () => {
+  const generate = vi.mocked(generateReport);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generate.mockRejectedValue(new Error('Model unavailable'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    generate.mockReset();
+  });
+
+  async function openStream(sessionId: string) {
+    const response = await GET(new NextRequest(`http://localhost/api/generate?sessionId=${sessionId}`));
+    // The stream ends after the job's `done` event
+    expect(await response.text()).toContain('event: server_error');
+  }
+
+  it('spends the bound key on one job only', async () => {
+    const sessionId = createSession();
+    sessionApiKeys.bind(sessionId, 'sk-owner');
+
+    await openStream(sessionId);
+    expect(generate.mock.calls[0][2]).toMatchObject({ apiKey: 'sk-owner' });
+
+    // Anyone reopening the report URL retries without it
+    await openStream(sessionId);
+    expect(generate.mock.calls[1][2]?.apiKey).toBeUndefined();
+  });
+
+  it('lets the client disconnect as the job finishes', async () => {
+    const sessionId = createSession();
+
+    const response = await GET(new NextRequest(`http://localhost/api/generate?sessionId=${sessionId}`));
+    await response.body?.cancel();
+
+    const job = generationJobManager.getJob(sessionId)!;
+    await vi.waitFor(() => expect(job.status).toBe('error'));
+  });
+
+  it('uses a key bound again for the retry', async () => {
+    const sessionId = createSession();
+    sessionApiKeys.bind(sessionId, 'sk-owner');
+    await openStream(sessionId);
+
+    sessionApiKeys.bind(sessionId, 'sk-owner');
+    await openStream(sessionId);
+    expect(generate.mock.calls[1][2]).toMatchObject({ apiKey: 'sk-owner' });
+  });
+});
@@ -1,8 +1,12 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { sessionManager } from '@/lib/session/manager';
-import { generateReport } from '@/lib/orchestrator/generator';
-import { ProgressUpdate } from '@/lib/orchestrator/progress-tracker';
+import { Session } from '@/lib/session/types';
+import { getBlueprintOutline } from '@/lib/report/blueprint';
+import { blueprintRegistry } from '@/lib/report/blueprint-registry';
+import { generationJobManager, GenerationEvent, GenerationJob } from '@/lib/orchestrator/job-manager';
 import { rateLimiter, formatResetTime } from '@/lib/utils/rate-limiter';
+import { userKeyCoversStages } from '@/lib/llm/user-keys';
+import { sessionApiKeys } from '@/lib/session/api-key-store';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -38,20 +42,138 @@ function sseImmediateError(message: string, extra?: Record<string, any>) {
   return sseResponse(stream);
 }
 
+function formatSseEvent(event: string, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream a generation job's events, replaying anything after `lastEventId`.
+ * Closing the stream only detaches this client; the job keeps running unless
+ * no client reattaches within the detach grace period.
+ */
+function sseJobStream(job: GenerationJob, lastEventId: number) {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Ask EventSource to reconnect quickly if the connection drops
+      controller.enqueue(encoder.encode('retry: 3000\n\n'));
+
+      const onEvent = (entry: GenerationEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSseEvent(entry.event, entry.data, entry.id)));
+        if (entry.event === 'done') {
+          closed = true;
+          // Defer so we never unsubscribe while the job is still iterating listeners
+          queueMicrotask(() => {
+            unsubscribe?.();
+            // The client may have gone in the meantime, which already closed the stream
+            if (!cancelled) controller.close();
+          });
+        }
+      };
+
+      unsubscribe = job.subscribe(onEvent, lastEventId);
+    },
+    cancel() {
+      closed = true;
+      cancelled = true;
+      unsubscribe?.();
+    },
+  });
+
+  return sseResponse(stream);
+}
+
+/**
+ * Replay a finished report (and its stored sections) without regenerating it
+ */
+function sseCompletedReport(session: Session) {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const [key, report] of Object.entries(session.partialReports)) {
+        controller.enqueue(encoder.encode(formatSseEvent('signal_complete', { key, report })));
+      }
+      for (const [key, report] of Object.entries(session.categoryReports)) {
+        controller.enqueue(encoder.encode(formatSseEvent('category_complete', { key, report })));
+      }
+      controller.enqueue(
+        encoder.encode(
+          formatSseEvent('complete', {
+            report: session.finalReport,
+            structuredReport: session.structuredReport,
+            outline: getBlueprintOutline(blueprintRegistry.getBlueprintForSession(session)),
+            message: 'Report generation completed!',
+          })
+        )
+      );
+      controller.enqueue(encoder.encode(formatSseEvent('done', { message: 'Stream closed' })));
+      controller.close();
+    },
+  });
+
+  return sseResponse(stream);
+}
+
+function parseLastEventId(request: NextRequest): number {
+  // EventSource sends Last-Event-ID on automatic reconnects; the query param covers manual ones
+  const raw = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+  const parsed = Number.parseInt(raw || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
 /**
  * GET /api/generate?sessionId=xxx - Server-Sent Events stream for report generation
+ *
+ * Generation runs as a job keyed by session. Reconnecting clients reattach to the
+ * running job (resuming after Last-Event-ID); completed sessions replay their report.
+ * Opening a fresh stream after a failed or cancelled job retries the generation.
  */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const sessionId = searchParams.get('sessionId');
-  const customApiKey = searchParams.get('customApiKey');
 
   if (!sessionId) {
     return sseImmediateError('Missing sessionId parameter');
   }
 
-  // Check rate limit (bypass if custom API key provided)
-  if (!customApiKey) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) {
+    return sseImmediateError('Session not found. The dev server likely restarted; please go back and generate again.', {
+      code: 'SESSION_NOT_FOUND',
+    });
+  }
+
+  // Reattach to a running job
+  const existingJob = generationJobManager.getJob(sessionId);
+  if (existingJob?.status === 'running') {
+    return sseJobStream(existingJob, parseLastEventId(request));
+  }
+
+  // Already generated: replay the stored report
+  if (session.status === 'completed' && session.finalReport) {
+    return sseCompletedReport(session);
+  }
+
+  // Just-finished job (error/cancelled): replay its tail to a reconnecting client.
+  // A fresh request (no Last-Event-ID) is a retry and starts a new job.
+  const lastEventId = parseLastEventId(request);
+  if (existingJob && lastEventId > 0) {
+    return sseJobStream(existingJob, lastEventId);
+  }
+
+  // The user's own key, bound when the session was created or before a retry (EventSource
+  // can't send headers). Taking it means it pays for this job only, not for whoever opens
+  // the report URL next.
+  const apiKey = sessionApiKeys.take(sessionId) ?? undefined;
+
+  // Check rate limit (bypass if the user's key pays for every stage). Only new jobs count.
+  if (!apiKey || !userKeyCoversStages(['signal', 'category', 'final'])) {
     const limitCheck = rateLimiter.checkLimit(request);
     if (!limitCheck.allowed) {
       const resetTime = limitCheck.limitType === 'minute'
@@ -74,62 +196,30 @@ export async function GET(request: NextRequest) {
     rateLimiter.recordRequest(request);
   }
 
-  const session = sessionManager.getSession(sessionId);
-  if (!session) {
-    return sseImmediateError('Session not found. The dev server likely restarted; please go back and generate again.', {
-      code: 'SESSION_NOT_FOUND',
-    });
-  }
-
-  // Create a readable stream for SSE
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    async start(controller) {
-      // Helper to send SSE message
-      const sendEvent = (event: string, data: any) => {
-        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-        controller.enqueue(encoder.encode(message));
-      };
-
-      try {
-        // Progress callback
-        const progressCallback = (update: ProgressUpdate) => {
-          sendEvent('progress', {
-            stage: update.stage,
-            progress: update.progress,
-            message: update.message,
-            currentTask: update.currentTask,
-            details: update.details,
-          });
-        };
+  const job = generationJobManager.startJob(sessionId, apiKey);
+  return sseJobStream(job, 0);
+}
 
-        // Start generation
-        sendEvent('start', { sessionId, message: 'Starting report generation...' });
+/**
+ * DELETE /api/generate?sessionId=xxx - Cancel a running report generation
+ */
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
 
-        await generateReport(sessionId, progressCallback);
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Missing sessionId parameter' }, { status: 400 });
+  }
 
-        // Get final report
-        const updatedSession = sessionManager.getSession(sessionId);
-        if (updatedSession?.finalReport) {
-          sendEvent('complete', {
-            report: updatedSession.finalReport,
-            message: 'Report generation completed!',
-          });
-        } else {
-          throw new Error('Report generation completed but no report found');
-        }
+  if (!sessionManager.getSession(sessionId)) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
 
-        sendEvent('done', { message: 'Stream closed' });
-      } catch (error) {
-        console.error('Report generation error:', error);
-        sendEvent('server_error', {
-          message: error instanceof Error ? error.message : 'Unknown error',
-        });
-      } finally {
-        controller.close();
-      }
-    },
-  });
+  if (!generationJobManager.cancelJob(sessionId)) {
+    return NextResponse.json(
+      { error: 'No report generation is running for this session' },
+      { status: 409 }
+    );
+  }
 
-  return sseResponse(stream);
+  return NextResponse.json({ sessionId, status: 'cancelling' }, { status: 202 });
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readUserApiKey, validateUserApiKey } from '@/lib/llm/user-keys';
+import { keyValidationLimiter, formatResetTime } from '@/lib/utils/rate-limiter';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/keys/validate - Check a user's own API key before it is saved
+ *
+ * The key goes in the X-User-Api-Key header. Returns { valid: true }, or
+ * { valid: false, error } with 400 when the provider rejects it. Rate limited,
+ * so it can't be used to test keys in bulk.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limitCheck = keyValidationLimiter.checkLimit(request);
+    if (!limitCheck.allowed) {
+      const resetTime = limitCheck.limitType === 'minute'
+        ? formatResetTime(limitCheck.resetAt.minute)
+        : limitCheck.limitType === 'hour'
+        ? formatResetTime(limitCheck.resetAt.hour)
+        : formatResetTime(limitCheck.resetAt.day);
+
+      return NextResponse.json(
+        {
+          valid: false,
+          error: `Too many key checks. You can try again in ${resetTime}.`,
+          limitType: limitCheck.limitType,
+          resetAt: limitCheck.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+    keyValidationLimiter.recordRequest(request);
+
+    const apiKey = readUserApiKey(request.headers);
+    if (!apiKey) {
+      return NextResponse.json({ valid: false, error: 'Missing API key' }, { status: 400 });
+    }
+
+    const result = await validateUserApiKey(apiKey);
+    return NextResponse.json(result, { status: result.valid ? 200 : 400 });
+  } catch (error) {
+    console.error('POST /api/keys/validate error:', error);
+    return NextResponse.json(
+      { error: 'Could not check the API key right now. Please try again.' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/session/manager';
+import { resolveCitation } from '@/lib/report/citations';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/session/:id/data?ref=standings[home].form - The collected data a citation points at
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const ref = request.nextUrl.searchParams.get('ref');
+
+    if (!ref) {
+      return NextResponse.json({ error: 'ref is required' }, { status: 400 });
+    }
+
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const value = resolveCitation(session.collectedData, ref);
+    if (value === undefined) {
+      return NextResponse.json({ error: `No data at "${ref}"` }, { status: 404 });
+    }
+
+    return NextResponse.json({ ref, value });
+  } catch (error) {
+    console.error('GET /api/session/:id/data error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve citation' },
+      { status: 500 }
+    );
+  }
+}
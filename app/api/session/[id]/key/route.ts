@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/session/manager';
+import { readUserApiKey } from '@/lib/llm/user-keys';
+import { sessionApiKeys } from '@/lib/session/api-key-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/session/:id/key - Bind the X-User-Api-Key header to the session for its next generation job
+ *
+ * A bound key pays for one job only, so the report page binds it again before a retry.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    if (!sessionManager.getSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const apiKey = readUserApiKey(request.headers);
+    if (!apiKey) {
+      return NextResponse.json({ error: 'Missing X-User-Api-Key header' }, { status: 400 });
+    }
+
+    sessionApiKeys.bind(sessionId, apiKey);
+    return NextResponse.json({ sessionId, userApiKey: true });
+  } catch (error) {
+    console.error('PUT /api/session/:id/key error:', error);
+    return NextResponse.json(
+      { error: 'Failed to bind API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/session/manager';
+import { generationJobManager } from '@/lib/orchestrator/job-manager';
+import { parseRegenerationTarget } from '@/lib/orchestrator/generator';
+import { blueprintRegistry } from '@/lib/report/blueprint-registry';
+import { rateLimiter, formatResetTime } from '@/lib/utils/rate-limiter';
+import { readUserApiKey, userKeyCoversStages } from '@/lib/llm/user-keys';
+import type { ModelStage } from '@/lib/llm/routing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/session/:id/regenerate - Regenerate a single signal or category
+ *
+ * Body: { target: "category.signal" | "category" }
+ * Uses the X-User-Api-Key header, if sent.
+ * Starts a job and returns 202; follow progress via GET /api/generate?sessionId=:id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { target } = body as { target?: unknown };
+
+    if (!target || typeof target !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid target. Use "category.signal" or a category ID.' },
+        { status: 400 }
+      );
+    }
+
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const parsedTarget = parseRegenerationTarget(target, blueprintRegistry.getBlueprintForSession(session));
+    if (!parsedTarget) {
+      return NextResponse.json({ error: `Unknown section: ${target}` }, { status: 400 });
+    }
+
+    if (!session.finalReport || !session.collectedData.fixture) {
+      return NextResponse.json(
+        { error: 'The report must finish generating before a section can be regenerated' },
+        { status: 409 }
+      );
+    }
+
+    // Only the header counts: the session ID is in the shareable report URL
+    const apiKey = readUserApiKey(request.headers) ?? undefined;
+    const stages: ModelStage[] = parsedTarget.type === 'signal' ? ['signal', 'category', 'final'] : ['category', 'final'];
+    const paidByUser = apiKey !== undefined && userKeyCoversStages(stages);
+
+    // Regeneration still costs LLM calls, so it counts against the same limits unless the user's key pays
+    const limitCheck = paidByUser ? null : rateLimiter.checkLimit(request);
+    if (limitCheck && !limitCheck.allowed) {
+      const resetAt = limitCheck.limitType === 'minute'
+        ? limitCheck.resetAt.minute
+        : limitCheck.limitType === 'hour'
+        ? limitCheck.resetAt.hour
+        : limitCheck.resetAt.day;
+
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. You can try again in ${formatResetTime(resetAt)}.`,
+          code: 'RATE_LIMIT_EXCEEDED',
+        },
+        { status: 429 }
+      );
+    }
+
+    const job = generationJobManager.startRegeneration(sessionId, parsedTarget, apiKey);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'A generation job is already running for this session' },
+        { status: 409 }
+      );
+    }
+
+    if (!paidByUser) {
+      rateLimiter.recordRequest(request);
+    }
+
+    return NextResponse.json({ sessionId, target }, { status: 202 });
+  } catch (error) {
+    console.error('POST /api/session/:id/regenerate error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start regeneration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/session/manager';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/session/:id/report - The final report as structured JSON
+ * (sections with sources and fact checks, talking points, category reports and signal confidences)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!session.structuredReport) {
+      const message = session.finalReport
+        ? 'Report synthesis failed; only the fallback markdown report is available'
+        : 'Report not generated yet';
+      return NextResponse.json({ error: message, status: session.status }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId: session.sessionId,
+      fixtureId: session.fixtureId,
+      blueprintId: session.blueprintId,
+      blueprintVersion: session.blueprintVersion,
+      audience: session.audienceId,
+      locale: session.localeId,
+      report: session.structuredReport,
+    });
+  } catch (error) {
+    console.error('GET /api/session/:id/report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get report' },
+      { status: 500 }
+    );
+  }
+}
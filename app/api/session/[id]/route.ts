@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/session/manager';
+import { summarizeUsage } from '@/lib/llm/usage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/session/:id - Session details: status, models used and token/cost usage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId: session.sessionId,
+      fixtureId: session.fixtureId,
+      status: session.status,
+      error: session.error,
+      createdAt: session.createdAt,
+      blueprintId: session.blueprintId,
+      blueprintVersion: session.blueprintVersion,
+      audience: session.audienceId,
+      locale: session.localeId,
+      stageModels: session.stageModels,
+      usage: {
+        summary: summarizeUsage(session.usage),
+        calls: session.usage,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/session/:id error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sessionManager } from '@/lib/session/manager';
+import { blueprintRegistry } from '@/lib/report/blueprint-registry';
+import { DEFAULT_AUDIENCE_ID, isAudienceId } from '@/lib/report/audiences';
+import { DEFAULT_LOCALE_ID, isLocaleId } from '@/lib/report/locales';
+import { usageTracker } from '@/lib/llm/usage';
+import { llmResponseCache } from '@/lib/llm/response-cache';
+import { readUserApiKey } from '@/lib/llm/user-keys';
+import { sessionApiKeys } from '@/lib/session/api-key-store';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 /**
  * POST /api/session - Create a new session
+ *
+ * A key in the X-User-Api-Key header is bound to the session and used for its LLM calls.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { fixtureId } = body;
+    const { fixtureId, blueprintId, audience = DEFAULT_AUDIENCE_ID, locale = DEFAULT_LOCALE_ID } = body;
 
     if (!fixtureId || typeof fixtureId !== 'number') {
       return NextResponse.json(
@@ -19,9 +28,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const sessionId = sessionManager.createSession({ fixtureId });
+    if (blueprintId !== undefined && typeof blueprintId !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid blueprintId' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof audience !== 'string' || !isAudienceId(audience)) {
+      return NextResponse.json(
+        { error: `Unknown audience: ${audience}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof locale !== 'string' || !isLocaleId(locale)) {
+      return NextResponse.json(
+        { error: `Unknown locale: ${locale}` },
+        { status: 400 }
+      );
+    }
+
+    // Omitted blueprintId selects the default blueprint; always pin the newest version
+    const blueprint = blueprintRegistry.getBlueprint(blueprintId);
+    if (!blueprint) {
+      return NextResponse.json(
+        { error: `Unknown blueprintId: ${blueprintId}` },
+        { status: 400 }
+      );
+    }
+
+    const sessionId = sessionManager.createSession({
+      fixtureId,
+      blueprintId: blueprint.id,
+      blueprintVersion: blueprint.version,
+      audienceId: audience,
+      localeId: locale,
+    });
+
+    const apiKey = readUserApiKey(request.headers);
+    if (apiKey) {
+      sessionApiKeys.bind(sessionId, apiKey);
+    }
 
-    return NextResponse.json({ sessionId }, { status: 201 });
+    return NextResponse.json(
+      {
+        sessionId,
+        blueprintId: blueprint.id,
+        blueprintVersion: blueprint.version,
+        audience,
+        locale,
+        userApiKey: apiKey !== null,
+      },
+      { status: 201 }
+    );
   } catch (error) {
     console.error('POST /api/session error:', error);
     return NextResponse.json(
@@ -32,12 +92,16 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/session - Get session stats (for debugging)
+ * GET /api/session - Get session stats, aggregate LLM usage/cost and LLM cache stats (for debugging)
  */
 export async function GET() {
   try {
     const stats = sessionManager.getStats();
-    return NextResponse.json(stats);
+    return NextResponse.json({
+      ...stats,
+      usage: usageTracker.getStats(),
+      llmCache: await llmResponseCache.getStats(),
+    });
   } catch (error) {
     console.error('GET /api/session error:', error);
     return NextResponse.json(
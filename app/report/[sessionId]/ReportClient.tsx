@@ -4,7 +4,45 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import ReactMarkdown from 'react-markdown';
 import { motion, AnimatePresence } from 'framer-motion';
+import { createParser } from 'eventsource-parser';
 import { FadeIn, SlideIn, StaggerContainer, StaggerItem } from '@/components/animations';
+import LiveReport from '@/components/live-report';
+import SectionRegenerator from '@/components/section-regenerator';
+import UsageSummary from '@/components/usage-summary';
+import FinalReport from '@/components/final-report';
+import type { PartialReport, CategoryReport } from '@/lib/session/types';
+import type { CategoryOutline } from '@/lib/report/blueprint';
+import type { FinalReport as FinalReportData } from '@/lib/report/types';
+import type { UsageSummary as UsageSummaryData } from '@/lib/llm/usage';
+import type { ChatStreamEvent } from '@/lib/llm/chains/chat-chain';
+import type { ChatToolCall } from '@/lib/llm/chat-tools';
+import type { RetrievalSource } from '@/lib/retrieval/chunks';
+import { userApiKeyHeaders } from '@/lib/session/browser-api-key';
+
+interface ChatEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  // Set once a reply has finished streaming
+  webSearch?: boolean;
+  toolCalls?: ChatToolCall[];
+  sources?: RetrievalSource[];
+  // Analysis still pending when the reply was written
+  pending?: string[];
+  // Generation had stopped, so the pending parts won't be written
+  analysisUnavailable?: boolean;
+}
+
+const TOOL_STATUS_ICONS: Record<ChatToolCall['status'], string> = {
+  running: '…',
+  completed: '✓',
+  failed: '✗',
+};
+
+function describeToolArgs(args: ChatToolCall['args']): string {
+  return Object.entries(args)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ');
+}
 
 interface ProgressUpdate {
   stage: string;
@@ -15,17 +53,35 @@ interface ProgressUpdate {
     current?: number;
     total?: number;
   };
+  cache?: {
+    hits: number;
+    misses: number;
+  };
 }
 
 export default function ReportClient({ sessionId }: { sessionId: string }) {
   const router = useRouter();
   const [progress, setProgress] = useState<ProgressUpdate | null>(null);
   const [report, setReport] = useState<string | null>(null);
+  const [signalReports, setSignalReports] = useState<Record<string, PartialReport>>({});
+  const [categoryReports, setCategoryReports] = useState<Record<string, CategoryReport>>({});
   const [error, setError] = useState<string | null>(null);
   const [generating, setGenerating] = useState(true);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [outline, setOutline] = useState<CategoryOutline[]>([]);
+  // Null when synthesis fell back to a plain markdown notice
+  const [structuredReport, setStructuredReport] = useState<FinalReportData | null>(null);
+  const [regenerateTarget, setRegenerateTarget] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageSummaryData | null>(null);
+  // Bumped to open a fresh stream (e.g. to follow a regeneration job)
+  const [streamKey, setStreamKey] = useState(0);
+  // Set once data collection has finished; stays set if generation then stops
+  const [dataCollected, setDataCollected] = useState(false);
   
   // Chat state
-  const [chatMessages, setChatMessages] = useState<Array<{ role: string; content: string }>>([]);
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [chatLoading, setChatLoading] = useState(false);
   
@@ -45,11 +101,24 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
     eventSource.addEventListener('progress', (e) => {
       const data: ProgressUpdate = JSON.parse((e as MessageEvent).data);
       setProgress(data);
+      if (data.stage !== 'data_collection') setDataCollected(true);
+    });
+
+    eventSource.addEventListener('signal_complete', (e) => {
+      const data: { key: string; report: PartialReport } = JSON.parse((e as MessageEvent).data);
+      setSignalReports((prev) => ({ ...prev, [data.key]: data.report }));
+    });
+
+    eventSource.addEventListener('category_complete', (e) => {
+      const data: { key: string; report: CategoryReport } = JSON.parse((e as MessageEvent).data);
+      setCategoryReports((prev) => ({ ...prev, [data.key]: data.report }));
     });
 
     eventSource.addEventListener('complete', (e) => {
       const data = JSON.parse((e as MessageEvent).data);
       setReport(data.report);
+      setOutline(data.outline ?? []);
+      setStructuredReport(data.structuredReport ?? null);
       setGenerating(false);
     });
 
@@ -59,6 +128,11 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
       setGenerating(false);
     });
 
+    eventSource.addEventListener('cancelled', () => {
+      setCancelled(true);
+      setGenerating(false);
+    });
+
     eventSource.addEventListener('error', (e) => {
       const maybeData = (e as MessageEvent).data;
       if (typeof maybeData !== 'string' || maybeData.length === 0) return;
@@ -77,6 +151,10 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
       eventSource.close();
     });
 
+    eventSource.onopen = () => {
+      setReconnecting(false);
+    };
+
     eventSource.onerror = (err) => {
       console.error('SSE error:', {
         err,
@@ -84,6 +162,13 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
         url: `/api/generate?sessionId=${sessionId}`,
       });
 
+      // The browser retries on its own (sending Last-Event-ID) and the server
+      // resumes the running job, so only give up once the source is closed.
+      if (eventSource.readyState === EventSource.CONNECTING) {
+        setReconnecting(true);
+        return;
+      }
+
       setError((prev) => prev || 'Connection lost. Please try again.');
       setGenerating(false);
       eventSource.close();
@@ -92,12 +177,100 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
     return () => {
       eventSource.close();
     };
-  }, [sessionId]);
+  }, [sessionId, streamKey]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  // Refresh token usage and cost once generation or a chat reply finishes
+  useEffect(() => {
+    if (!report || generating || chatLoading) return;
+    let ignore = false;
+
+    fetch(`/api/session/${sessionId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!ignore && data?.usage) setUsage(data.usage.summary);
+      })
+      .catch((err) => console.error('Usage fetch error:', err));
+
+    return () => {
+      ignore = true;
+    };
+  }, [sessionId, report, generating, chatLoading]);
+
+  const handleCancel = async () => {
+    if (cancelling) return;
+    setCancelling(true);
+
+    try {
+      const response = await fetch(`/api/generate?sessionId=${sessionId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 409) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel generation');
+      }
+      // The stream delivers the `cancelled` event once the pipeline has stopped
+    } catch (err) {
+      console.error('Cancel error:', err);
+      setCancelling(false);
+    }
+  };
+
+  // Open a fresh stream without Last-Event-ID: the server starts a new job,
+  // so drop the previous run's sections rather than mixing the two
+  const handleRetry = async () => {
+    setError(null);
+    setCancelled(false);
+    setCancelling(false);
+    setProgress(null);
+    setSignalReports({});
+    setCategoryReports({});
+    setGenerating(true);
+
+    // The previous job used up the bound key; bind it again so it pays for this one
+    const keyHeaders = userApiKeyHeaders();
+    if (Object.keys(keyHeaders).length > 0) {
+      try {
+        await fetch(`/api/session/${sessionId}/key`, { method: 'PUT', headers: keyHeaders });
+      } catch (err) {
+        console.error('API key bind error:', err);
+      }
+    }
+
+    setStreamKey((key) => key + 1);
+  };
+
+  const handleRegenerate = async (target: string) => {
+    if (regenerateTarget) return;
+    setRegenerateTarget(target);
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...userApiKeyHeaders() },
+        body: JSON.stringify({ target }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to regenerate section');
+      }
+
+      // Follow the regeneration job over a fresh stream; the current report stays visible
+      setError(null);
+      setCancelled(false);
+      setCancelling(false);
+      setProgress(null);
+      setGenerating(true);
+      setStreamKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setRegenerateTarget(null);
+    }
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!chatInput.trim() || chatLoading) return;
@@ -111,7 +284,7 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...userApiKeyHeaders() },
         body: JSON.stringify({
           sessionId,
           message: userMessage,
@@ -123,37 +296,68 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
         throw new Error(errorData.error || 'Failed to send message');
       }
 
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantMessage = '';
+      // Replace the reply being streamed (always the last message)
+      const updateReply = (update: (reply: ChatEntry) => ChatEntry) =>
+        setChatMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
 
       // Add empty assistant message that we'll update
       setChatMessages((prev) => [...prev, { role: 'assistant', content: '' }]);
 
+      let streamError: string | null = null;
+      let finished = false;
+      const parser = createParser((event) => {
+        if (event.type !== 'event') return;
+        const frame = { event: event.event, data: JSON.parse(event.data) } as ChatStreamEvent;
+
+        if (frame.event === 'delta') {
+          updateReply((reply) => ({ ...reply, content: reply.content + frame.data.text }));
+        } else if (frame.event === 'tool') {
+          // Each call is sent when it starts and again when it finishes
+          updateReply((reply) => {
+            const calls = reply.toolCalls ?? [];
+            const known = calls.some((call) => call.id === frame.data.id);
+            return {
+              ...reply,
+              toolCalls: known
+                ? calls.map((call) => (call.id === frame.data.id ? frame.data : call))
+                : [...calls, frame.data],
+            };
+          });
+        } else if (frame.event === 'done') {
+          finished = true;
+          updateReply(() => ({
+            role: 'assistant',
+            content: frame.data.content,
+            webSearch: frame.data.webSearch,
+            toolCalls: frame.data.toolCalls,
+            sources: frame.data.sources,
+            pending: frame.data.pending,
+            analysisUnavailable: frame.data.analysisUnavailable,
+          }));
+        } else if (frame.event === 'error') {
+          streamError = frame.data.message;
+        }
+      });
+
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
       if (reader) {
         try {
           while (true) {
             const { done, value } = await reader.read();
             if (done) break;
-
-            const chunk = decoder.decode(value, { stream: true });
-            assistantMessage += chunk;
-
-            // Update the last message with accumulated content
-            setChatMessages((prev) => {
-              const newMessages = [...prev];
-              newMessages[newMessages.length - 1] = {
-                role: 'assistant',
-                content: assistantMessage,
-              };
-              return newMessages;
-            });
+            parser.feed(decoder.decode(value, { stream: true }));
           }
         } finally {
           reader.releaseLock();
         }
       }
+
+      if (!finished) {
+        // Drop the partial reply; the error message takes its place
+        setChatMessages((prev) => prev.slice(0, -1));
+        throw new Error(streamError ?? 'The reply was interrupted');
+      }
     } catch (err) {
       setChatMessages((prev) => [
         ...prev,
@@ -167,6 +371,9 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
     }
   };
 
+  // Chat opens once data collection is done, before the report is finished (or if it never is)
+  const chatAvailable = Boolean(report) || dataCollected;
+
   return (
     <main className="container mx-auto px-4 py-10 max-w-5xl">
       {/* Header */}
@@ -195,14 +402,59 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
           >
             <h3 className="text-sm font-semibold text-red-900 dark:text-red-100">Generation error</h3>
             <p className="mt-2 text-sm text-red-800 dark:text-red-200">{error}</p>
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => router.push('/')}
-              className="mt-4 inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-zinc-50 hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-950 dark:hover:bg-zinc-200 transition-colors"
-            >
-              Go home
-            </motion.button>
+            <div className="mt-4 flex flex-wrap gap-2">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={handleRetry}
+                className="inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-zinc-50 hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-950 dark:hover:bg-zinc-200 transition-colors"
+              >
+                Try again
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => router.push('/')}
+                className="inline-flex items-center justify-center rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-900 hover:bg-zinc-50 dark:border-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+              >
+                Go home
+              </motion.button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Cancelled State */}
+      <AnimatePresence>
+        {cancelled && !error && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="mb-6 rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-6"
+          >
+            <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">Generation cancelled</h3>
+            <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+              Report generation was stopped before it finished.
+            </p>
+            <div className="mt-4 flex flex-wrap gap-2">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={handleRetry}
+                className="inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-zinc-50 hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-950 dark:hover:bg-zinc-200 transition-colors"
+              >
+                Try again
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => router.push('/')}
+                className="inline-flex items-center justify-center rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-900 hover:bg-zinc-50 dark:border-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+              >
+                Go home
+              </motion.button>
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -226,6 +478,11 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
                 >
                   {progress.message}
                 </motion.div>
+                {reconnecting && (
+                  <div className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                    Connection interrupted, reconnecting...
+                  </div>
+                )}
                 {progress.currentTask && (
                   <motion.div
                     key={progress.currentTask}
@@ -265,13 +522,33 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
                 Processing {progress.details.current} of {progress.details.total}
               </motion.div>
             )}
+
+            {progress.cache && (
+              <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-500">
+                Reused {progress.cache.hits} of {progress.cache.hits + progress.cache.misses} cached LLM results
+              </div>
+            )}
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="text-xs font-medium text-zinc-600 hover:text-zinc-900 disabled:opacity-50 dark:text-zinc-400 dark:hover:text-zinc-50 transition-colors"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel generation'}
+              </button>
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Sections streamed in while the final report is being written */}
+      {!report && <LiveReport sessionId={sessionId} signalReports={signalReports} categoryReports={categoryReports} />}
+
       {/* Report Display */}
+      {report && structuredReport && <FinalReport sessionId={sessionId} report={structuredReport} />}
       <AnimatePresence>
-        {report && (
+        {report && !structuredReport && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -285,9 +562,23 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
         )}
       </AnimatePresence>
 
+      {/* Token usage and estimated cost */}
+      {report && usage && <UsageSummary usage={usage} />}
+
+      {/* Per-section regeneration */}
+      {report && !generating && (
+        <SectionRegenerator
+          outline={outline}
+          signalReports={signalReports}
+          categoryReports={categoryReports}
+          pendingTarget={regenerateTarget}
+          onRegenerate={handleRegenerate}
+        />
+      )}
+
       {/* Chat Interface */}
       <AnimatePresence>
-        {report && !generating && (
+        {chatAvailable && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -297,7 +588,9 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
             <div className="border-b border-zinc-200 dark:border-zinc-800 p-4">
               <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">Follow-up questions</h3>
               <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-                Ask about tactics, form, injuries, or key matchups.
+                {report
+                  ? 'Ask about tactics, form, injuries, or key matchups.'
+                  : 'The report is still being written. Answers use the match data and the sections finished so far.'}
               </p>
             </div>
 
@@ -332,9 +625,35 @@ export default function ReportClient({ sessionId }: { sessionId: string }) {
                           : 'bg-zinc-100 dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100'
                       }`}
                     >
+                      {msg.toolCalls && msg.toolCalls.length > 0 && (
+                        <ul className="mb-2 space-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+                          {msg.toolCalls.map((call) => (
+                            <li key={call.id} title={call.error}>
+                              🔧 {call.name}
+                              {Object.keys(call.args).length > 0 && ` · ${describeToolArgs(call.args)}`}{' '}
+                              {TOOL_STATUS_ICONS[call.status]}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <ReactMarkdown className="prose dark:prose-invert prose-sm max-w-none">
                         {msg.content}
                       </ReactMarkdown>
+                      {msg.webSearch && (
+                        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">🔍 Includes recent web search results</p>
+                      )}
+                      {msg.pending && msg.pending.length > 0 && (
+                        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                          {msg.analysisUnavailable
+                            ? `⚠️ Parts of the analysis are unavailable (${msg.pending.length} part${msg.pending.length === 1 ? '' : 's'} not written)`
+                            : `⏳ Written before the report finished (${msg.pending.length} part${msg.pending.length === 1 ? '' : 's'} pending)`}
+                        </p>
+                      )}
+                      {msg.sources && msg.sources.length > 0 && (
+                        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                          📚 Sources: {msg.sources.map((source) => source.label).join(' · ')}
+                        </p>
+                      )}
                     </motion.div>
                   </motion.div>
                 ))}
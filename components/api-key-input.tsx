@@ -12,13 +12,35 @@ interface ApiKeyInputProps {
 export default function ApiKeyInput({ onApiKeySubmit, isOpen, onClose }: ApiKeyInputProps) {
   const [apiKey, setApiKey] = useState('');
   const [showKey, setShowKey] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim()) {
-      onApiKeySubmit(apiKey.trim());
+    const key = apiKey.trim();
+    if (!key || validating) return;
+
+    // Only save keys the provider accepts
+    setValidating(true);
+    setValidationError(null);
+    try {
+      const response = await fetch('/api/keys/validate', {
+        method: 'POST',
+        headers: { 'X-User-Api-Key': key },
+      });
+      const data = await response.json();
+      if (!data.valid) {
+        setValidationError(data.error || 'The API key could not be validated');
+        return;
+      }
+
+      onApiKeySubmit(key);
       setApiKey('');
       onClose();
+    } catch {
+      setValidationError('Could not check the API key. Please try again.');
+    } finally {
+      setValidating(false);
     }
   };
 
@@ -72,7 +94,10 @@ export default function ApiKeyInput({ onApiKeySubmit, isOpen, onClose }: ApiKeyI
                       id="apiKey"
                       type={showKey ? 'text' : 'password'}
                       value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
+                      onChange={(e) => {
+                        setApiKey(e.target.value);
+                        setValidationError(null);
+                      }}
                       placeholder="sk-..."
                       className="w-full px-3 py-2 pr-10 border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder-zinc-400 dark:placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500 dark:focus:ring-emerald-400 focus:border-transparent"
                       required
@@ -94,8 +119,11 @@ export default function ApiKeyInput({ onApiKeySubmit, isOpen, onClose }: ApiKeyI
                       )}
                     </button>
                   </div>
+                  {validationError && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-2">{validationError}</p>
+                  )}
                   <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-2">
-                    Your API key is only used for this session and never stored on our servers.
+                    Your API key is checked with the provider, then kept encrypted in memory for your report session only. It is never written to disk.
                   </p>
                 </div>
 
@@ -126,10 +154,10 @@ export default function ApiKeyInput({ onApiKeySubmit, isOpen, onClose }: ApiKeyI
                   </button>
                   <button
                     type="submit"
-                    disabled={!apiKey.trim()}
+                    disabled={!apiKey.trim() || validating}
                     className="flex-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-zinc-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
                   >
-                    Use My Key
+                    {validating ? 'Checking...' : 'Use My Key'}
                   </button>
                 </div>
               </form>
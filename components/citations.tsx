@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CitationsProps {
+  sessionId: string;
+  sources: string[];
+}
+
+type CitationData = { status: 'loading' } | { status: 'loaded'; value: unknown } | { status: 'error'; message: string };
+
+function CitationPill({ sessionId, source }: { sessionId: string; source: string }) {
+  const [hovered, setHovered] = useState(false);
+  const [pinned, setPinned] = useState(false);
+  const [data, setData] = useState<CitationData | null>(null);
+
+  const load = async () => {
+    if (data) return;
+    setData({ status: 'loading' });
+    try {
+      const response = await fetch(`/api/session/${sessionId}/data?ref=${encodeURIComponent(source)}`);
+      const body = await response.json();
+      setData(response.ok ? { status: 'loaded', value: body.value } : { status: 'error', message: body.error });
+    } catch {
+      setData({ status: 'error', message: 'Failed to load data' });
+    }
+  };
+
+  const open = hovered || pinned;
+
+  return (
+    <span
+      className="relative inline-block"
+      onMouseEnter={() => {
+        setHovered(true);
+        void load();
+      }}
+      onMouseLeave={() => setHovered(false)}
+    >
+      <button
+        type="button"
+        onClick={() => {
+          setPinned((prev) => !prev);
+          void load();
+        }}
+        className="rounded bg-zinc-100 px-1.5 py-0.5 font-mono text-[11px] text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 transition-colors"
+      >
+        {source}
+      </button>
+      {open && data && (
+        <span className="absolute left-0 top-full z-20 mt-1 block w-80 max-w-[80vw] rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-3 shadow-lg">
+          {data.status === 'loading' && <span className="text-xs text-zinc-500">Loading...</span>}
+          {data.status === 'error' && <span className="text-xs text-amber-700 dark:text-amber-300">{data.message}</span>}
+          {data.status === 'loaded' && (
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap text-[11px] text-zinc-700 dark:text-zinc-300">
+              {JSON.stringify(data.value, null, 2)}
+            </pre>
+          )}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Source references of an insight or section. Hovering (or clicking, to keep it open)
+ * shows the collected data the reference points at.
+ */
+export default function Citations({ sessionId, sources }: CitationsProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <span className="ml-1 inline-flex flex-wrap gap-1 align-middle">
+      {sources.map((source) => (
+        <CitationPill key={source} sessionId={sessionId} source={source} />
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import type { FactCheckResult } from '@/lib/report/fact-check';
+
+interface FactCheckBadgeProps {
+  result: FactCheckResult;
+}
+
+/**
+ * "Verified" / "N unverified" pill for a fact-checked section.
+ * Hovering lists the claims that were corrected or flagged.
+ */
+export default function FactCheckBadge({ result }: FactCheckBadgeProps) {
+  // Nothing in the text could be compared with the data
+  if (result.checked === 0) return null;
+
+  const flagged = result.issues.filter((issue) => issue.action === 'flagged').length;
+  const corrected = result.issues.length - flagged;
+  const details = result.issues
+    .map((issue) => `${issue.action === 'corrected' ? 'Corrected' : 'Unverified'}: "${issue.claim}" (data: ${issue.expected})`)
+    .join('\n');
+
+  const label = result.verified
+    ? corrected > 0 ? `verified · ${corrected} corrected` : 'verified'
+    : `${flagged} unverified`;
+
+  return (
+    <span
+      title={details || `${result.checked} claim(s) match the match data`}
+      className={`ml-2 inline-block rounded-full px-2 py-0.5 text-xs font-medium ${
+        result.verified
+          ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-300'
+          : 'bg-amber-50 text-amber-700 dark:bg-amber-950 dark:text-amber-300'
+      }`}
+    >
+      {result.verified ? '✓' : '⚠'} {label}
+    </span>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import { motion } from 'framer-motion';
+import Citations from '@/components/citations';
+import FactCheckBadge from '@/components/fact-check-badge';
+import type { FinalReport as FinalReportData } from '@/lib/report/types';
+
+interface FinalReportProps {
+  sessionId: string;
+  report: FinalReportData;
+}
+
+const TALKING_POINTS_ID = 'report-talking-points';
+const CATEGORIES_ID = 'report-categories';
+
+function sectionId(index: number): string {
+  return `report-section-${index + 1}`;
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.75) return 'text-emerald-700 dark:text-emerald-300';
+  if (confidence >= 0.5) return 'text-zinc-700 dark:text-zinc-300';
+  return 'text-amber-700 dark:text-amber-300';
+}
+
+/**
+ * The structured final report: table of contents, sections with citations and
+ * fact-check badges, talking points, and the category/signal breakdown behind it
+ */
+export default function FinalReport({ sessionId, report }: FinalReportProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="mb-6 rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-6 sm:p-8"
+    >
+      <h1 className="text-2xl sm:text-3xl font-bold text-zinc-900 dark:text-zinc-50">{report.title}</h1>
+      <p className="mt-2 text-base text-zinc-600 dark:text-zinc-400">{report.subtitle}</p>
+
+      {/* Table of contents */}
+      <nav className="mt-6 rounded-xl bg-zinc-50 dark:bg-zinc-900 p-4">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Contents</h2>
+        <ol className="mt-2 space-y-1 text-sm">
+          {report.sections.map((section, idx) => (
+            <li key={idx}>
+              <a href={`#${sectionId(idx)}`} className="text-zinc-700 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-zinc-50">
+                {section.emoji} {section.title}
+              </a>
+            </li>
+          ))}
+          {report.quickTalkingPoints.length > 0 && (
+            <li>
+              <a href={`#${TALKING_POINTS_ID}`} className="text-zinc-700 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-zinc-50">
+                🎙️ Quick Talking Points
+              </a>
+            </li>
+          )}
+          {report.categories.length > 0 && (
+            <li>
+              <a href={`#${CATEGORIES_ID}`} className="text-zinc-700 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-zinc-50">
+                📊 Signal confidence
+              </a>
+            </li>
+          )}
+        </ol>
+      </nav>
+
+      {/* Sections */}
+      <div className="mt-8 space-y-8">
+        {report.sections.map((section, idx) => (
+          <section key={idx} id={sectionId(idx)} className="scroll-mt-6">
+            <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+              {section.emoji} {section.title}
+              {section.factCheck && <FactCheckBadge result={section.factCheck} />}
+            </h2>
+            <div className="prose dark:prose-invert max-w-none mt-3">
+              <ReactMarkdown>{section.content}</ReactMarkdown>
+            </div>
+            {section.sources.length > 0 && (
+              <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+                Sources:
+                <Citations sessionId={sessionId} sources={section.sources} />
+              </p>
+            )}
+          </section>
+        ))}
+      </div>
+
+      {/* Talking points */}
+      {report.quickTalkingPoints.length > 0 && (
+        <section id={TALKING_POINTS_ID} className="mt-8 scroll-mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+            🎙️ Quick Talking Points
+            {report.talkingPointsFactCheck && <FactCheckBadge result={report.talkingPointsFactCheck} />}
+          </h2>
+          <ol className="mt-3 list-decimal pl-5 space-y-2 text-zinc-700 dark:text-zinc-300">
+            {report.quickTalkingPoints.map((point, idx) => (
+              <li key={idx}>{point}</li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {/* Category reports and the signals behind them */}
+      {report.categories.length > 0 && (
+        <section id={CATEGORIES_ID} className="mt-8 scroll-mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+          <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">📊 Signal confidence</h2>
+          <div className="mt-3 grid gap-4 sm:grid-cols-2">
+            {report.categories.map((category) => (
+              <div key={category.categoryId}>
+                <h3 className="text-sm font-medium text-zinc-800 dark:text-zinc-200">{category.title}</h3>
+                <ul className="mt-1 space-y-1">
+                  {category.signals.map((signal) => (
+                    <li key={signal.signalId} className="flex items-center justify-between gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+                      <span>
+                        {signal.emoji} {signal.title}
+                      </span>
+                      <span className={`shrink-0 font-medium ${confidenceClass(signal.confidence)}`}>
+                        {Math.round(signal.confidence * 100)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <p className="mt-8 text-xs text-zinc-500 dark:text-zinc-500">
+        Report generated on {new Date(report.generatedAt).toLocaleString()}
+      </p>
+    </motion.div>
+  );
+}
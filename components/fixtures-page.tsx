@@ -6,6 +6,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { FadeIn, StaggerContainer, StaggerItem } from '@/components/animations';
 import { FixtureData } from '@/lib/api-football/types';
 import ApiKeyInput from '@/components/api-key-input';
+import { AUDIENCE_PROFILES, AudienceId, DEFAULT_AUDIENCE_ID } from '@/lib/report/audiences';
+import { LOCALE_PROFILES, LocaleId, DEFAULT_LOCALE_ID } from '@/lib/report/locales';
+import { loadUserApiKey, saveUserApiKey } from '@/lib/session/browser-api-key';
 
 // Top leagues with ranking (for sorting by attractiveness)
 const TOP_LEAGUES = [
@@ -33,6 +36,8 @@ export default function FixturesPage() {
   const [customApiKey, setCustomApiKey] = useState<string | null>(null);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [rateLimitError, setRateLimitError] = useState<any>(null);
+  const [audience, setAudience] = useState<AudienceId>(DEFAULT_AUDIENCE_ID);
+  const [locale, setLocale] = useState<LocaleId>(DEFAULT_LOCALE_ID);
 
   useEffect(() => {
     fetchFixtures();
@@ -108,16 +113,19 @@ export default function FixturesPage() {
     filterAndSortFixtures();
   }, [filterAndSortFixtures]);
 
-  const handleGenerate = async (fixtureId: number) => {
+  const handleGenerate = async (fixtureId: number, apiKey: string | null = customApiKey ?? loadUserApiKey()) => {
     try {
       setGeneratingFixtureId(fixtureId);
       setRateLimitError(null);
 
-      // Create session
+      // Create session (the server binds the key to it; it never goes in a URL)
       const response = await fetch('/api/session', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ fixtureId }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { 'X-User-Api-Key': apiKey }),
+        },
+        body: JSON.stringify({ fixtureId, audience, locale }),
       });
 
       const data = await response.json();
@@ -133,11 +141,7 @@ export default function FixturesPage() {
         throw new Error(data.error || 'Failed to create session');
       }
 
-      // Navigate to report page with custom API key if provided
-      const url = customApiKey 
-        ? `/report/${data.sessionId}?customApiKey=${encodeURIComponent(customApiKey)}`
-        : `/report/${data.sessionId}`;
-      router.push(url);
+      router.push(`/report/${data.sessionId}`);
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to generate report');
       setGeneratingFixtureId(null);
@@ -146,10 +150,12 @@ export default function FixturesPage() {
 
   const handleApiKeySubmit = (apiKey: string) => {
     setCustomApiKey(apiKey);
+    // The report page sends it with chat and regeneration requests
+    saveUserApiKey(apiKey);
     setRateLimitError(null);
     // Retry generating if there was a rate limit error
     if (generatingFixtureId) {
-      handleGenerate(generatingFixtureId);
+      handleGenerate(generatingFixtureId, apiKey);
     }
   };
 
@@ -325,6 +331,41 @@ export default function FixturesPage() {
             Showing {filteredFixtures.length} of {fixtures.length}
             {selectedLeague && ` • ${TOP_LEAGUES.find(l => l.id === selectedLeague)?.name}`}
           </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-2 border-t border-zinc-200 dark:border-zinc-800 pt-4">
+            <span className="text-sm text-zinc-600 dark:text-zinc-400">Write reports for:</span>
+            {Object.values(AUDIENCE_PROFILES).map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => setAudience(profile.id)}
+                title={profile.description}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  audience === profile.id
+                    ? 'bg-zinc-900 text-zinc-50 dark:bg-zinc-50 dark:text-zinc-950'
+                    : 'bg-zinc-100 text-zinc-900 hover:bg-zinc-200 dark:bg-zinc-900 dark:text-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+              >
+                {profile.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-zinc-600 dark:text-zinc-400">Language:</span>
+            {Object.values(LOCALE_PROFILES).map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => setLocale(profile.id)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  locale === profile.id
+                    ? 'bg-zinc-900 text-zinc-50 dark:bg-zinc-50 dark:text-zinc-950'
+                    : 'bg-zinc-100 text-zinc-900 hover:bg-zinc-200 dark:bg-zinc-900 dark:text-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+              >
+                {profile.name}
+              </button>
+            ))}
+          </div>
         </div>
       </FadeIn>
 
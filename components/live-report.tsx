@@ -0,0 +1,105 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import { motion, AnimatePresence } from 'framer-motion';
+import FactCheckBadge from '@/components/fact-check-badge';
+import Citations from '@/components/citations';
+import type { PartialReport, CategoryReport } from '@/lib/session/types';
+
+interface LiveReportProps {
+  sessionId: string;
+  // Keyed by "category.signal" / "category", in arrival order
+  signalReports: Record<string, PartialReport>;
+  categoryReports: Record<string, CategoryReport>;
+}
+
+/**
+ * Renders signal and category results while the final report is still being written.
+ * A category's merged report replaces its individual signal cards once it arrives.
+ */
+export default function LiveReport({ sessionId, signalReports, categoryReports }: LiveReportProps) {
+  const categoryIds: string[] = [];
+  for (const report of Object.values(signalReports)) {
+    if (!categoryIds.includes(report.categoryId)) categoryIds.push(report.categoryId);
+  }
+  for (const categoryId of Object.keys(categoryReports)) {
+    if (!categoryIds.includes(categoryId)) categoryIds.push(categoryId);
+  }
+
+  if (categoryIds.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-4">
+      <AnimatePresence initial={false}>
+        {categoryIds.map((categoryId) => {
+          const categoryReport = categoryReports[categoryId];
+          const signals = Object.values(signalReports).filter((r) => r.categoryId === categoryId);
+
+          return (
+            <motion.div
+              key={categoryId}
+              layout
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4 }}
+              className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-6"
+            >
+              {categoryReport ? (
+                <>
+                  <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">{categoryReport.title}</h2>
+                  <div className="mt-4 space-y-4">
+                    {categoryReport.sections.map((section, idx) => (
+                      <div key={idx}>
+                        <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">
+                          {section.emoji} {section.title}
+                        </h3>
+                        <div className="prose prose-sm dark:prose-invert max-w-none mt-1">
+                          <ReactMarkdown>{section.content}</ReactMarkdown>
+                        </div>
+                        <Citations sessionId={sessionId} sources={section.sources ?? []} />
+                      </div>
+                    ))}
+                  </div>
+                  {categoryReport.talkingPoints.length > 0 && (
+                    <ul className="mt-4 list-disc pl-5 text-sm text-zinc-700 dark:text-zinc-300 space-y-1">
+                      {categoryReport.talkingPoints.map((point, idx) => (
+                        <li key={idx}>{point}</li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-5">
+                  {signals.map((signal) => (
+                    <motion.div
+                      key={signal.signalId}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                    >
+                      <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                        {signal.emoji} {signal.title}
+                        {signal.factCheck && <FactCheckBadge result={signal.factCheck} />}
+                      </h3>
+                      {signal.insights.length > 0 && (
+                        <ul className="mt-2 list-disc pl-5 text-sm text-zinc-700 dark:text-zinc-300 space-y-1">
+                          {signal.insights.map((insight, idx) => (
+                            <li key={idx}>
+                              {insight.text}
+                              <Citations sessionId={sessionId} sources={insight.sources} />
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">{signal.narrative}</p>
+                    </motion.div>
+                  ))}
+                  <p className="text-xs text-zinc-500 dark:text-zinc-500">Category summary pending...</p>
+                </div>
+              )}
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
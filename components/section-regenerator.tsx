@@ -0,0 +1,86 @@
+'use client';
+
+import FactCheckBadge from '@/components/fact-check-badge';
+import type { CategoryReport, PartialReport } from '@/lib/session/types';
+import type { CategoryOutline } from '@/lib/report/blueprint';
+
+interface SectionRegeneratorProps {
+  outline: CategoryOutline[];
+  signalReports: Record<string, PartialReport>;
+  categoryReports: Record<string, CategoryReport>;
+  // Section currently being requested (disables every button)
+  pendingTarget: string | null;
+  onRegenerate: (target: string) => void;
+}
+
+/**
+ * Lists report sections with a "regenerate" action for each signal and category.
+ * Sections that fell back to placeholder text (or have no stored result) are
+ * flagged as failed; the rest show their fact-check status.
+ */
+export default function SectionRegenerator({
+  outline,
+  signalReports,
+  categoryReports,
+  pendingTarget,
+  onRegenerate,
+}: SectionRegeneratorProps) {
+  if (outline.length === 0) return null;
+
+  const failedBadge = <span className="ml-2 text-xs text-amber-700 dark:text-amber-300">failed</span>;
+
+  const buttonClass =
+    'shrink-0 text-xs font-medium text-zinc-600 hover:text-zinc-900 disabled:opacity-50 dark:text-zinc-400 dark:hover:text-zinc-50 transition-colors';
+
+  return (
+    <details className="mb-6 rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-4">
+      <summary className="cursor-pointer text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+        Regenerate a section
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {outline.map((category) => (
+          <div key={category.id}>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-zinc-800 dark:text-zinc-200">
+                {category.emoji} {category.name}
+                {categoryReports[category.id]?.fallback && failedBadge}
+              </span>
+              <button
+                onClick={() => onRegenerate(category.id)}
+                disabled={pendingTarget !== null}
+                className={buttonClass}
+              >
+                {pendingTarget === category.id ? 'Starting...' : 'Regenerate category'}
+              </button>
+            </div>
+
+            <ul className="mt-2 space-y-1 pl-4">
+              {category.signals.map((signal) => {
+                const key = `${category.id}.${signal.id}`;
+                const signalReport = signalReports[key];
+
+                return (
+                  <li key={key} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-zinc-600 dark:text-zinc-400">
+                      {signal.name}
+                      {(!signalReport || signalReport.fallback) && failedBadge}
+                      {signalReport?.factCheck && <FactCheckBadge result={signalReport.factCheck} />}
+                    </span>
+                    <button
+                      onClick={() => onRegenerate(key)}
+                      disabled={pendingTarget !== null}
+                      className={buttonClass}
+                    >
+                      {pendingTarget === key ? 'Starting...' : 'Regenerate'}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
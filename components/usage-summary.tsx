@@ -0,0 +1,57 @@
+'use client';
+
+import type { UsageSummary as UsageSummaryData, UsageTotals } from '@/lib/llm/usage';
+
+interface UsageSummaryProps {
+  usage: UsageSummaryData;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  signal: 'Signals',
+  category: 'Categories',
+  final: 'Final report',
+  chat: 'Chat',
+};
+
+function formatCost(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(totals: UsageTotals): string {
+  return `${totals.totalTokens.toLocaleString()} tokens (${totals.promptTokens.toLocaleString()} in / ${totals.completionTokens.toLocaleString()} out)`;
+}
+
+/**
+ * Token usage and estimated cost for a session, overall and per stage
+ */
+export default function UsageSummary({ usage }: UsageSummaryProps) {
+  if (usage.calls === 0) return null;
+
+  return (
+    <details className="mb-6 rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 p-4">
+      <summary className="cursor-pointer text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+        Estimated cost: {formatCost(usage.costUsd)}
+        <span className="ml-2 font-normal text-zinc-600 dark:text-zinc-400">
+          {usage.calls} LLM calls · {formatTokens(usage)}
+        </span>
+      </summary>
+
+      <ul className="mt-3 space-y-1">
+        {Object.entries(usage.byStage).map(([stage, totals]) => (
+          <li key={stage} className="flex items-center justify-between gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+            <span>
+              {STAGE_LABELS[stage] ?? stage} · {totals.calls} calls · {formatTokens(totals)}
+            </span>
+            <span className="shrink-0 font-medium text-zinc-800 dark:text-zinc-200">{formatCost(totals.costUsd)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {usage.unpricedModels.length > 0 && (
+        <p className="mt-3 text-xs text-amber-700 dark:text-amber-300">
+          No price configured for {usage.unpricedModels.join(', ')}; those calls are not included in the cost.
+        </p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  expiresAt: number; // Fresh until this timestamp
+  staleUntil: number; // May still be served (while revalidating) until this timestamp
+}
+
+/**
+ * Storage backend for cached API-Football responses.
+ * Async so that disk/database-backed stores can share the same contract.
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Process-local store (lost on restart / cold start)
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries: Map<string, CacheEntry> = new Map();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.entries.get(key) as CacheEntry<T> | undefined) ?? null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
+
+interface StoredFileEntry<T = unknown> extends CacheEntry<T> {
+  key: string;
+}
+
+/**
+ * File-backed store: one JSON file per cache key.
+ * Survives dev-server restarts; file names are hashed so any key is safe on disk.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+  private dir: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf8');
+      const stored = JSON.parse(raw) as StoredFileEntry<T>;
+      // Guard against (very unlikely) hash collisions
+      if (stored.key !== key) return null;
+      return { data: stored.data, expiresAt: stored.expiresAt, staleUntil: stored.staleUntil };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️  Failed to read cache file for ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.ensureDir();
+    const target = this.filePath(key);
+    const stored: StoredFileEntry<T> = { key, ...entry };
+    // Write then rename so concurrent readers never see a half-written file
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(stored), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+    this.ready = null;
+  }
+
+  async keys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const keys: string[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const raw = await fs.readFile(path.join(this.dir, file), 'utf8');
+        keys.push((JSON.parse(raw) as StoredFileEntry).key);
+      } catch {
+        // Skip unreadable/partial files
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Default directory for a file store: under .cache/ locally, under the OS temp
+ * dir on Vercel, where only /tmp is writable
+ */
+export function defaultCacheDir(name: string): string {
+  return process.env.VERCEL ? path.join(os.tmpdir(), name) : path.join('.cache', name);
+}
+
+/**
+ * Build the cache store selected by APIFOOTBALL_CACHE_STORE (memory | file)
+ */
+export function createCacheStore(
+  kind = process.env.APIFOOTBALL_CACHE_STORE || 'memory',
+  dir = process.env.APIFOOTBALL_CACHE_DIR || defaultCacheDir('api-football')
+): CacheStore {
+  switch (kind) {
+    case 'file':
+      return new FileCacheStore(dir);
+    case 'memory':
+      return new MemoryCacheStore();
+    default:
+      console.warn(`⚠️  Unknown APIFOOTBALL_CACHE_STORE "${kind}", falling back to memory`);
+      return new MemoryCacheStore();
+  }
+}
@@ -0,0 +1,122 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiFootballCache, buildCacheKey } from './cache';
+import { createCacheStore, defaultCacheDir, FileCacheStore, MemoryCacheStore } from './cache-store';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('buildCacheKey', () => {
+  it('does not depend on parameter order', () => {
+    expect(buildCacheKey('/standings', { season: 2024, league: 39 })).toBe('/standings?league=39&season=2024');
+    expect(buildCacheKey('/standings', { league: 39, season: 2024 })).toBe('/standings?league=39&season=2024');
+  });
+});
+
+describe('apiFootballCache', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-11-10T12:00:00Z'));
+    await apiFootballCache.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves fresh entries until the endpoint TTL, then stale ones while revalidating', async () => {
+    await apiFootballCache.set('/standings', { league: 39 }, ['table']);
+
+    vi.advanceTimersByTime(29 * MINUTE);
+    expect(await apiFootballCache.get('/standings', { league: 39 })).toEqual({ data: ['table'], isStale: false });
+
+    // Standings are fresh for 30 minutes, then stale for three times that
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect(await apiFootballCache.get('/standings', { league: 39 })).toEqual({ data: ['table'], isStale: true });
+
+    vi.advanceTimersByTime(88 * MINUTE);
+    expect((await apiFootballCache.get('/standings', { league: 39 }))?.isStale).toBe(true);
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect(await apiFootballCache.get('/standings', { league: 39 })).toBeNull();
+    expect((await apiFootballCache.getStats()).size).toBe(0);
+  });
+
+  it('prefers a custom TTL, then the endpoint TTL, then the 60 minute default', async () => {
+    await apiFootballCache.set('/standings', { league: 39 }, 'custom', 5 * MINUTE);
+    await apiFootballCache.set('/fixtures', { id: 1 }, 'fixture');
+    await apiFootballCache.set('/venues', { id: 1 }, 'venue');
+
+    vi.advanceTimersByTime(3 * MINUTE);
+    expect((await apiFootballCache.get('/fixtures', { id: 1 }))?.isStale).toBe(true);
+    expect((await apiFootballCache.get('/standings', { league: 39 }))?.isStale).toBe(false);
+
+    vi.advanceTimersByTime(3 * MINUTE);
+    expect((await apiFootballCache.get('/standings', { league: 39 }))?.isStale).toBe(true);
+    expect((await apiFootballCache.get('/venues', { id: 1 }))?.isStale).toBe(false);
+
+    vi.advanceTimersByTime(HOUR);
+    expect((await apiFootballCache.get('/venues', { id: 1 }))?.isStale).toBe(true);
+  });
+
+  it('scales the stale window with the endpoint TTL', async () => {
+    await apiFootballCache.set('/fixtures', { id: 1 }, 'live');
+    await apiFootballCache.set('/fixtures/headtohead', { h2h: '49-42' }, 'h2h');
+
+    // A 2 minute fixture TTL may only be served stale for 6 more minutes
+    vi.advanceTimersByTime(9 * MINUTE);
+    expect(await apiFootballCache.get('/fixtures', { id: 1 })).toBeNull();
+    expect((await apiFootballCache.get('/fixtures/headtohead', { h2h: '49-42' }))?.isStale).toBe(false);
+  });
+
+  it('cleanup drops only entries past their stale window', async () => {
+    await apiFootballCache.set('/fixtures', { id: 1 }, 'short');
+    await apiFootballCache.set('/teams', { id: 49 }, 'long');
+
+    vi.advanceTimersByTime(7 * HOUR);
+    await apiFootballCache.cleanup();
+
+    expect((await apiFootballCache.getStats()).entries).toEqual(['/teams?id=49']);
+  });
+});
+
+describe('cache stores', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('file store round-trips entries and lists their keys', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'api-football-cache-'));
+    tempDirs.push(dir);
+    const store = new FileCacheStore(path.join(dir, 'nested'));
+    const entry = { data: { teams: ['Chelsea', 'Arsenal'] }, expiresAt: 1, staleUntil: 2 };
+
+    expect(await store.get('/fixtures?id=1')).toBeNull();
+    await store.set('/fixtures?id=1', entry);
+    expect(await store.get('/fixtures?id=1')).toEqual(entry);
+    expect(await store.keys()).toEqual(['/fixtures?id=1']);
+
+    await store.delete('/fixtures?id=1');
+    expect(await store.get('/fixtures?id=1')).toBeNull();
+  });
+
+  it('falls back to memory for an unknown store kind', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(createCacheStore('redis')).toBeInstanceOf(MemoryCacheStore);
+    expect(createCacheStore('file', 'x')).toBeInstanceOf(FileCacheStore);
+  });
+
+  it('puts file caches under the temp dir on Vercel', () => {
+    vi.stubEnv('VERCEL', '');
+    expect(defaultCacheDir('llm')).toBe(path.join('.cache', 'llm'));
+
+    vi.stubEnv('VERCEL', '1');
+    expect(defaultCacheDir('llm')).toBe(path.join(os.tmpdir(), 'llm'));
+  });
+});
@@ -1,6 +1,8 @@
-interface CacheEntry<T> {
+import { CacheStore, createCacheStore } from './cache-store';
+
+export interface CacheLookup<T> {
   data: T;
-  expiresAt: number;
+  isStale: boolean; // Expired but still inside the stale-while-revalidate window
 }
 
 // Endpoint-specific TTL configuration (in milliseconds)
@@ -15,6 +17,7 @@ const ENDPOINT_TTL_CONFIG: Record<string, number> = {
   // Semi-static data - medium TTL
   '/standings': 30 * 60 * 1000,         // 30 minutes
   '/fixtures/headtohead': 24 * 60 * 60 * 1000, // 24 hours
+  '/players': 6 * 60 * 60 * 1000,       // 6 hours (season stats change after matchdays)
   
   // Static data - long TTL
   '/leagues': 7 * 24 * 60 * 60 * 1000,  // 7 days
@@ -22,80 +25,95 @@ const ENDPOINT_TTL_CONFIG: Record<string, number> = {
   '/timezone': 30 * 24 * 60 * 60 * 1000, // 30 days
 };
 
+// How long an expired entry may still be served while a refresh is in flight,
+// as a multiple of its TTL (so live fixtures go stale in minutes, teams in weeks)
+const DEFAULT_STALE_FACTOR = 3;
+
+/**
+ * Generate cache key from endpoint and params
+ */
+export function buildCacheKey(endpoint: string, params: Record<string, any>): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return `${endpoint}?${sortedParams}`;
+}
+
 class APIFootballCache {
-  private cache: Map<string, CacheEntry<any>> = new Map();
+  private store: CacheStore;
   private defaultTTL: number = 60 * 60 * 1000; // 60 minutes
+  private staleFactor: number;
 
-  /**
-   * Generate cache key from URL and params
-   */
-  private generateKey(endpoint: string, params: Record<string, any>): string {
-    const sortedParams = Object.keys(params)
-      .sort()
-      .map((key) => `${key}=${params[key]}`)
-      .join('&');
-    return `${endpoint}?${sortedParams}`;
+  constructor(store: CacheStore = createCacheStore()) {
+    this.store = store;
+    const factor = Number.parseFloat(process.env.APIFOOTBALL_CACHE_STALE_FACTOR || '');
+    this.staleFactor = Number.isFinite(factor) && factor >= 0 ? factor : DEFAULT_STALE_FACTOR;
   }
 
   /**
-   * Get cached data if available and not expired
+   * Get cached data if available.
+   * Expired entries inside the stale window are returned with `isStale: true`
+   * so the caller can serve them while revalidating.
    */
-  get<T>(endpoint: string, params: Record<string, any>): T | null {
-    const key = this.generateKey(endpoint, params);
-    const entry = this.cache.get(key);
+  async get<T>(endpoint: string, params: Record<string, any>): Promise<CacheLookup<T> | null> {
+    const key = buildCacheKey(endpoint, params);
+    const entry = await this.store.get<T>(key);
 
     if (!entry) {
       return null;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      await this.store.delete(key);
       return null;
     }
 
-    return entry.data;
+    return { data: entry.data, isStale: now > entry.expiresAt };
   }
 
   /**
-   * Set cache entry with custom, endpoint-specific, or default TTL
+   * Set cache entry with custom, endpoint-specific, or default TTL.
+   * It stays servable as stale for APIFOOTBALL_CACHE_STALE_FACTOR times that TTL.
    */
-  set<T>(
+  async set<T>(
     endpoint: string,
     params: Record<string, any>,
     data: T,
     ttl?: number
-  ): void {
-    const key = this.generateKey(endpoint, params);
+  ): Promise<void> {
+    const key = buildCacheKey(endpoint, params);
     // Priority: custom TTL > endpoint-specific TTL > default TTL
     const effectiveTTL = ttl || ENDPOINT_TTL_CONFIG[endpoint] || this.defaultTTL;
     const expiresAt = Date.now() + effectiveTTL;
 
-    this.cache.set(key, { data, expiresAt });
+    await this.store.set(key, { data, expiresAt, staleUntil: expiresAt + effectiveTTL * this.staleFactor });
   }
 
   /**
    * Clear specific cache entry
    */
-  delete(endpoint: string, params: Record<string, any>): void {
-    const key = this.generateKey(endpoint, params);
-    this.cache.delete(key);
+  async delete(endpoint: string, params: Record<string, any>): Promise<void> {
+    await this.store.delete(buildCacheKey(endpoint, params));
   }
 
   /**
    * Clear all cache entries
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.store.clear();
   }
 
   /**
-   * Clean up expired entries
+   * Clean up entries that are past their stale window
    */
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key);
+      if (entry && now > entry.staleUntil) {
+        await this.store.delete(key);
       }
     }
   }
@@ -103,10 +121,12 @@ class APIFootballCache {
   /**
    * Get cache statistics
    */
-  getStats() {
+  async getStats() {
+    const entries = await this.store.keys();
     return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
+      store: this.store.name,
+      size: entries.length,
+      entries,
     };
   }
 }
@@ -116,5 +136,7 @@ export const apiFootballCache = new APIFootballCache();
 
 // Auto cleanup every 10 minutes
 setInterval(() => {
-  apiFootballCache.cleanup();
+  apiFootballCache.cleanup().catch((error) => {
+    console.warn('⚠️  API-Football cache cleanup failed:', error);
+  });
 }, 10 * 60 * 1000);
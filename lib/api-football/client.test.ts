@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiFootballCache } from './cache';
+import { apiFootballClient } from './client';
+
+// The client reads its mode and key once, on import
+vi.hoisted(() => {
+  process.env.APIFOOTBALL_MODE = 'live';
+  process.env.APIFOOTBALL_API_KEY = 'test-key';
+});
+
+const MINUTE = 60 * 1000;
+
+function apiResponse(response: unknown): Response {
+  return new Response(JSON.stringify({ errors: [], results: 1, response }), { status: 200 });
+}
+
+describe('apiFootballClient cache use', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-11-10T12:00:00Z'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await apiFootballCache.clear();
+    await apiFootballCache.set('/fixtures/lineups', { fixture: 1 }, { errors: [], results: 1, response: ['old'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('serves a stale entry at once and refreshes it in the background', async () => {
+    fetchMock.mockResolvedValue(apiResponse(['new']));
+    vi.advanceTimersByTime(11 * MINUTE);
+
+    expect(await apiFootballClient.getLineups({ fixture: 1 })).toEqual(['old']);
+    await vi.waitFor(async () => {
+      expect((await apiFootballCache.get('/fixtures/lineups', { fixture: 1 }))?.isStale).toBe(false);
+    });
+    expect(await apiFootballClient.getLineups({ fixture: 1 })).toEqual(['new']);
+  });
+
+  it('waits for the refresh when fresh data is asked for', async () => {
+    fetchMock.mockResolvedValue(apiResponse(['new']));
+    vi.advanceTimersByTime(11 * MINUTE);
+
+    expect(await apiFootballClient.getLineups({ fixture: 1 }, { fresh: true })).toEqual(['new']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the stale entry when a fresh refresh fails', async () => {
+    fetchMock.mockResolvedValue(new Response('{}', { status: 404, statusText: 'Not Found' }));
+    vi.advanceTimersByTime(11 * MINUTE);
+
+    expect(await apiFootballClient.getLineups({ fixture: 1 }, { fresh: true })).toEqual(['old']);
+  });
+
+  it('does not refresh entries that are still fresh', async () => {
+    expect(await apiFootballClient.getLineups({ fixture: 1 }, { fresh: true })).toEqual(['old']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('apiFootballClient.getPredictions', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await apiFootballCache.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('treats a failed lookup as no predictions', async () => {
+    fetchMock.mockResolvedValue(new Response('{}', { status: 404, statusText: 'Not Found' }));
+
+    expect(await apiFootballClient.getPredictions({ fixture: 1 })).toBeNull();
+  });
+
+  it('lets a cancellation through instead of reporting no predictions', async () => {
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+    const controller = new AbortController();
+
+    const lookup = apiFootballClient.getPredictions({ fixture: 2 }, { signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+
+    await expect(lookup).rejects.toThrow('Cancelled');
+    expect(console.log).not.toHaveBeenCalledWith('No predictions available for fixture 2');
+  });
+});
+
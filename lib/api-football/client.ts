@@ -14,8 +14,18 @@ import {
   GetStandingsParams,
   PredictionData,
   GetPredictionsParams,
+  PlayerData,
+  GetPlayersParams,
 } from './types';
-import { apiFootballCache } from './cache';
+import { apiFootballCache, buildCacheKey } from './cache';
+import {
+  APIFootballMode,
+  getAPIFootballMode,
+  getRecordingPath,
+  readRecording,
+  writeRecording,
+} from './recorder';
+import { raceAbort, sleep } from '../utils/abort';
 
 // Rate limit metadata captured from API-Football response headers
 export interface RateLimitInfo {
@@ -29,6 +39,18 @@ export interface APIFootballResponseWithMeta<T> {
   rateLimit?: RateLimitInfo;
 }
 
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Wait for a refresh instead of serving a stale cache entry
+  fresh?: boolean;
+}
+
+interface InFlightRequest {
+  promise: Promise<APIFootballResponse<unknown>>;
+  controller: AbortController;
+  waiters: number;
+}
+
 export class APIFootballError extends Error {
   constructor(
     message: string,
@@ -43,34 +65,175 @@ export class APIFootballError extends Error {
 class APIFootballClient {
   private baseURL: string;
   private apiKey: string;
+  private mode: APIFootballMode;
   private maxRetries = 3;
   private retryDelay = 1000;
+  // In-flight network fetches keyed by cache key (dedupes concurrent refreshes)
+  private inFlight: Map<string, InFlightRequest> = new Map();
 
   constructor() {
     this.baseURL = process.env.APIFOOTBALL_BASE_URL || 'https://v3.football.api-sports.io';
     this.apiKey = process.env.APIFOOTBALL_API_KEY || '';
+    this.mode = getAPIFootballMode();
 
-    if (!this.apiKey) {
+    if (this.mode !== 'live') {
+      console.log(`ℹ️  API-Football running in ${this.mode} mode`);
+    }
+
+    if (!this.apiKey && this.mode !== 'replay') {
       console.warn('⚠️  APIFOOTBALL_API_KEY not set in environment variables');
     }
   }
 
   /**
-   * Make HTTP request with retry logic
-   * Enforces GET-only requests and strict header policy per API-Football architecture
+   * Serve from cache when possible, otherwise fetch from the network.
+   * Stale entries are served immediately while a background refresh runs, unless
+   * the caller asks for fresh data; then they are only a fallback if the refresh fails.
+   * Replay mode serves recordings only; record mode skips cache reads so
+   * every response reaches disk.
    */
   private async request<T>(
     endpoint: string,
     params: Record<string, any> = {},
-    attempt = 1
+    options: RequestOptions = {}
   ): Promise<APIFootballResponse<T>> {
-    // Check cache first
-    const cached = apiFootballCache.get<APIFootballResponse<T>>(endpoint, params);
-    if (cached) {
+    options.signal?.throwIfAborted();
+
+    if (this.mode === 'replay') {
+      return this.replay<T>(endpoint, params);
+    }
+
+    if (this.mode === 'record') {
+      return this.fetchAndCache<T>(endpoint, params, options.signal);
+    }
+
+    const cached = await apiFootballCache.get<APIFootballResponse<T>>(endpoint, params);
+    if (cached && !cached.isStale) {
       console.log(`✓ Cache hit: ${endpoint}`, params);
-      return cached;
+      return cached.data;
     }
 
+    if (cached && options.fresh) {
+      try {
+        return await this.fetchAndCache<T>(endpoint, params, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`⚠️  Refresh failed, serving stale ${endpoint}:`, error);
+        return cached.data;
+      }
+    }
+
+    if (cached) {
+      console.log(`↻ Cache stale, serving while revalidating: ${endpoint}`, params);
+      this.fetchAndCache<T>(endpoint, params).catch((error) => {
+        console.warn(`⚠️  Background revalidation failed for ${endpoint}:`, error);
+      });
+      return cached.data;
+    }
+
+    return this.fetchAndCache<T>(endpoint, params, options.signal);
+  }
+
+  /**
+   * Serve a recorded response (replay mode). No network access.
+   */
+  private async replay<T>(
+    endpoint: string,
+    params: Record<string, unknown>
+  ): Promise<APIFootballResponse<T>> {
+    const recorded = await readRecording<T>(endpoint, params);
+    if (!recorded) {
+      throw new APIFootballError(
+        `No recording for ${buildCacheKey(endpoint, params)} (APIFOOTBALL_MODE=replay). ` +
+          `Expected file: ${getRecordingPath(endpoint, params)}. Run once with APIFOOTBALL_MODE=record to capture it.`,
+        404,
+        endpoint
+      );
+    }
+
+    // Recorded error bodies replay exactly like live ones
+    if (recorded.errors && Object.keys(recorded.errors).length > 0) {
+      throw new APIFootballError(
+        `API-Football returned errors: ${JSON.stringify(recorded.errors)}`,
+        undefined,
+        endpoint
+      );
+    }
+
+    console.log(`✓ Replayed: ${endpoint}`, params);
+    return recorded;
+  }
+
+  /**
+   * Fetch from the network and cache the result.
+   * Concurrent calls for the same endpoint/params share one request, which is
+   * only aborted once every caller waiting on it has aborted.
+   */
+  private fetchAndCache<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<APIFootballResponse<T>> {
+    const key = buildCacheKey(endpoint, params);
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = this.fetchWithRetry<T>(endpoint, params, controller.signal)
+        .then(async (data) => {
+          // A failed cache write shouldn't cost the caller the fresh response
+          try {
+            await apiFootballCache.set(endpoint, params, data);
+          } catch (error) {
+            console.warn(`⚠️  Failed to cache ${key}:`, error);
+          }
+          return data;
+        })
+        .finally(() => {
+          this.inFlight.delete(key);
+        });
+
+      entry = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, entry);
+    }
+
+    return this.waitForInFlight(entry, signal) as Promise<APIFootballResponse<T>>;
+  }
+
+  private waitForInFlight(
+    entry: InFlightRequest,
+    signal?: AbortSignal
+  ): Promise<APIFootballResponse<unknown>> {
+    entry.waiters += 1;
+
+    // Callers without a signal keep the request alive for good
+    if (!signal) {
+      return entry.promise;
+    }
+
+    const release = () => {
+      entry.waiters -= 1;
+      if (entry.waiters === 0) {
+        entry.controller.abort(signal.reason);
+      }
+    };
+    signal.addEventListener('abort', release, { once: true });
+
+    return raceAbort(entry.promise, signal).finally(() => {
+      signal.removeEventListener('abort', release);
+    });
+  }
+
+  /**
+   * Make HTTP request with retry logic
+   * Enforces GET-only requests and strict header policy per API-Football architecture
+   */
+  private async fetchWithRetry<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    signal: AbortSignal,
+    attempt = 1
+  ): Promise<APIFootballResponse<T>> {
     const queryString = new URLSearchParams(
       Object.entries(params).reduce((acc, [key, value]) => {
         if (value !== undefined && value !== null) {
@@ -91,6 +254,7 @@ class APIFootballClient {
         headers: {
           'x-apisports-key': this.apiKey,
         },
+        signal,
       });
 
       // Capture rate-limit headers (API-Football provides these)
@@ -117,8 +281,8 @@ class APIFootballClient {
           
           if (attempt < this.maxRetries) {
             console.log(`⏳ Rate limited (429), retrying in ${delay}ms...`);
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            return this.request<T>(endpoint, params, attempt + 1);
+            await sleep(delay, signal);
+            return this.fetchWithRetry<T>(endpoint, params, signal, attempt + 1);
           } else {
             throw new APIFootballError(
               `Rate limit exceeded. Requests remaining: ${rateLimit.requestsRemaining || 0}/${rateLimit.requestsLimit || 'unknown'}`,
@@ -140,8 +304,8 @@ class APIFootballClient {
           // Server error - retry
           const delay = this.retryDelay * attempt;
           console.log(`⏳ Server error, retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          return this.request<T>(endpoint, params, attempt + 1);
+          await sleep(delay, signal);
+          return this.fetchWithRetry<T>(endpoint, params, signal, attempt + 1);
         }
 
         throw new APIFootballError(
@@ -153,13 +317,18 @@ class APIFootballClient {
 
       const data: APIFootballResponse<T> = await response.json();
 
+      // Record the body as returned (including error bodies) so replays match live behaviour
+      if (this.mode === 'record') {
+        await writeRecording(endpoint, params, data);
+      }
+
       if (data.errors && Object.keys(data.errors).length > 0) {
         // Check if it's a rate limit error in the response body
         const errors = data.errors as any;
         if (errors.rateLimit && attempt < this.maxRetries) {
           console.log(`⏳ Rate limit error in response, waiting 12 seconds before retry...`);
-          await new Promise((resolve) => setTimeout(resolve, 12000)); // Wait 12s for rate limit reset
-          return this.request<T>(endpoint, params, attempt + 1);
+          await sleep(12000, signal); // Wait 12s for rate limit reset
+          return this.fetchWithRetry<T>(endpoint, params, signal, attempt + 1);
         }
         
         throw new APIFootballError(
@@ -169,8 +338,6 @@ class APIFootballClient {
         );
       }
 
-      // Cache successful response
-      apiFootballCache.set(endpoint, params, data);
       console.log(`✓ API-Football success: ${endpoint}`, { results: data.results });
 
       return data;
@@ -179,11 +346,16 @@ class APIFootballClient {
         throw error;
       }
 
+      // Cancelled by every caller - don't retry
+      if (signal.aborted) {
+        throw error;
+      }
+
       if (attempt < this.maxRetries) {
         const delay = this.retryDelay * attempt;
         console.log(`⏳ Request failed, retrying in ${delay}ms...`, error);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        return this.request<T>(endpoint, params, attempt + 1);
+        await sleep(delay, signal);
+        return this.fetchWithRetry<T>(endpoint, params, signal, attempt + 1);
       }
 
       throw new APIFootballError(
@@ -197,62 +369,73 @@ class APIFootballClient {
   /**
    * Get fixtures (list or by ID)
    */
-  async getFixtures(params: GetFixturesParams): Promise<FixtureData[]> {
-    const response = await this.request<FixtureData[]>('/fixtures', params);
+  async getFixtures(params: GetFixturesParams, options: RequestOptions = {}): Promise<FixtureData[]> {
+    const response = await this.request<FixtureData[]>('/fixtures', params, options);
     return response.response;
   }
 
   /**
    * Get fixture statistics
    */
-  async getStatistics(params: GetStatisticsParams): Promise<FixtureStatistics[]> {
-    const response = await this.request<FixtureStatistics[]>('/fixtures/statistics', params);
+  async getStatistics(params: GetStatisticsParams, options: RequestOptions = {}): Promise<FixtureStatistics[]> {
+    const response = await this.request<FixtureStatistics[]>('/fixtures/statistics', params, options);
     return response.response;
   }
 
   /**
    * Get injuries
    */
-  async getInjuries(params: GetInjuriesParams): Promise<Injury[]> {
-    const response = await this.request<Injury[]>('/injuries', params);
+  async getInjuries(params: GetInjuriesParams, options: RequestOptions = {}): Promise<Injury[]> {
+    const response = await this.request<Injury[]>('/injuries', params, options);
     return response.response;
   }
 
   /**
    * Get lineups
    */
-  async getLineups(params: GetLineupsParams): Promise<Lineup[]> {
-    const response = await this.request<Lineup[]>('/fixtures/lineups', params);
+  async getLineups(params: GetLineupsParams, options: RequestOptions = {}): Promise<Lineup[]> {
+    const response = await this.request<Lineup[]>('/fixtures/lineups', params, options);
     return response.response;
   }
 
   /**
    * Get head-to-head matches
    */
-  async getH2H(params: GetH2HParams): Promise<H2HMatch[]> {
-    const response = await this.request<H2HMatch[]>('/fixtures/headtohead', params);
+  async getH2H(params: GetH2HParams, options: RequestOptions = {}): Promise<H2HMatch[]> {
+    const response = await this.request<H2HMatch[]>('/fixtures/headtohead', params, options);
     return response.response;
   }
 
   /**
    * Get league standings
    */
-  async getStandings(params: GetStandingsParams): Promise<Standing[][]> {
+  async getStandings(params: GetStandingsParams, options: RequestOptions = {}): Promise<Standing[][]> {
     const response = await this.request<{ league: { standings: Standing[][] } }[]>(
       '/standings',
-      params
+      params,
+      options
     );
     return response.response[0]?.league?.standings || [];
   }
 
+  /**
+   * Get players with their season statistics
+   */
+  async getPlayers(params: GetPlayersParams, options: RequestOptions = {}): Promise<PlayerData[]> {
+    const response = await this.request<PlayerData[]>('/players', params, options);
+    return response.response;
+  }
+
   /**
    * Get AI predictions for a fixture
    */
-  async getPredictions(params: GetPredictionsParams): Promise<PredictionData | null> {
+  async getPredictions(params: GetPredictionsParams, options: RequestOptions = {}): Promise<PredictionData | null> {
     try {
-      const response = await this.request<PredictionData[]>('/predictions', params);
+      const response = await this.request<PredictionData[]>('/predictions', params, options);
       return response.response[0] || null;
     } catch (error) {
+      // A cancelled request is not a missing dataset
+      if (options.signal?.aborted) throw error;
       // Predictions might not be available for all fixtures
       console.log(`No predictions available for fixture ${params.fixture}`);
       return null;
@@ -1,4 +1,4 @@
-import { apiFootballClient, APIFootballError } from './client';
+import { apiFootballClient, APIFootballError, RequestOptions } from './client';
 import {
   FixtureData,
   FixtureStatistics,
@@ -14,6 +14,8 @@ import {
   GetStandingsParams,
   PredictionData,
   GetPredictionsParams,
+  PlayerData,
+  GetPlayersParams,
 } from './types';
 
 /**
@@ -24,14 +26,14 @@ export class APIFootballProxy {
   /**
    * Get fixtures with error handling
    */
-  static async getFixtures(params: GetFixturesParams): Promise<{
+  static async getFixtures(params: GetFixturesParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: FixtureData[];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getFixtures(params);
+      const data = await apiFootballClient.getFixtures(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getFixtures error:', error);
@@ -62,14 +64,14 @@ export class APIFootballProxy {
   /**
    * Get fixture statistics with error handling
    */
-  static async getStatistics(params: GetStatisticsParams): Promise<{
+  static async getStatistics(params: GetStatisticsParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: FixtureStatistics[];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getStatistics(params);
+      const data = await apiFootballClient.getStatistics(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getStatistics error:', error);
@@ -84,14 +86,14 @@ export class APIFootballProxy {
   /**
    * Get injuries with error handling
    */
-  static async getInjuries(params: GetInjuriesParams): Promise<{
+  static async getInjuries(params: GetInjuriesParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: Injury[];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getInjuries(params);
+      const data = await apiFootballClient.getInjuries(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getInjuries error:', error);
@@ -106,14 +108,14 @@ export class APIFootballProxy {
   /**
    * Get lineups with error handling
    */
-  static async getLineups(params: GetLineupsParams): Promise<{
+  static async getLineups(params: GetLineupsParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: Lineup[];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getLineups(params);
+      const data = await apiFootballClient.getLineups(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getLineups error:', error);
@@ -128,14 +130,14 @@ export class APIFootballProxy {
   /**
    * Get head-to-head matches with error handling
    */
-  static async getH2H(params: GetH2HParams): Promise<{
+  static async getH2H(params: GetH2HParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: H2HMatch[];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getH2H(params);
+      const data = await apiFootballClient.getH2H(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getH2H error:', error);
@@ -150,14 +152,14 @@ export class APIFootballProxy {
   /**
    * Get league standings with error handling
    */
-  static async getStandings(params: GetStandingsParams): Promise<{
+  static async getStandings(params: GetStandingsParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: Standing[][];
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getStandings(params);
+      const data = await apiFootballClient.getStandings(params, options);
       return { success: true, data };
     } catch (error) {
       console.error('APIFootballProxy.getStandings error:', error);
@@ -172,16 +174,17 @@ export class APIFootballProxy {
   /**
    * Get AI predictions with error handling
    */
-  static async getPredictions(params: GetPredictionsParams): Promise<{
+  static async getPredictions(params: GetPredictionsParams, options: RequestOptions = {}): Promise<{
     success: boolean;
     data?: PredictionData | null;
     error?: string;
     statusCode?: number;
   }> {
     try {
-      const data = await apiFootballClient.getPredictions(params);
+      const data = await apiFootballClient.getPredictions(params, options);
       return { success: true, data };
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('APIFootballProxy.getPredictions error:', error);
       return {
         success: false,
@@ -190,4 +193,26 @@ export class APIFootballProxy {
       };
     }
   }
+
+  /**
+   * Get players with error handling
+   */
+  static async getPlayers(params: GetPlayersParams, options: RequestOptions = {}): Promise<{
+    success: boolean;
+    data?: PlayerData[];
+    error?: string;
+    statusCode?: number;
+  }> {
+    try {
+      const data = await apiFootballClient.getPlayers(params, options);
+      return { success: true, data };
+    } catch (error) {
+      console.error('APIFootballProxy.getPlayers error:', error);
+      return {
+        success: false,
+        error: error instanceof APIFootballError ? error.message : 'Failed to fetch players',
+        statusCode: error instanceof APIFootballError ? error.statusCode : undefined,
+      };
+    }
+  }
 }
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { APIFootballResponse } from './types';
+
+/**
+ * live   - normal network access (default)
+ * record - always hit the network and write every response to disk
+ * replay - serve recorded responses only, never touch the network
+ */
+export type APIFootballMode = 'live' | 'record' | 'replay';
+
+export function getAPIFootballMode(): APIFootballMode {
+  const mode = (process.env.APIFOOTBALL_MODE || 'live').toLowerCase();
+  if (mode === 'record' || mode === 'replay') {
+    return mode;
+  }
+  if (mode !== 'live') {
+    console.warn(`⚠️  Unknown APIFOOTBALL_MODE "${mode}", using live`);
+  }
+  return 'live';
+}
+
+function getRecordingsDir(): string {
+  return path.resolve(process.env.APIFOOTBALL_RECORDINGS_DIR || 'recordings/api-football');
+}
+
+/**
+ * Map endpoint + params to a stable file path, e.g.
+ * /fixtures/headtohead { h2h: '49-42' } -> <dir>/fixtures/headtohead/h2h=49-42.json
+ */
+export function getRecordingPath(endpoint: string, params: Record<string, unknown>): string {
+  const endpointDir = endpoint.replace(/^\/+/, '').replace(/[^a-zA-Z0-9/_-]/g, '_');
+
+  // Same filtering as the query string: undefined/null params are never sent
+  const paramPart = Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map((key) => `${key}=${String(params[key])}`)
+    .join('&')
+    .replace(/[^a-zA-Z0-9=&._-]/g, '_');
+
+  return path.join(getRecordingsDir(), endpointDir, `${paramPart || '_'}.json`);
+}
+
+/**
+ * Read a recorded response, or null if none exists for this request
+ */
+export async function readRecording<T>(
+  endpoint: string,
+  params: Record<string, unknown>
+): Promise<APIFootballResponse<T> | null> {
+  try {
+    const raw = await fs.readFile(getRecordingPath(endpoint, params), 'utf8');
+    return JSON.parse(raw) as APIFootballResponse<T>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a response to disk. Failures are logged, never thrown,
+ * so recording can't break a live request.
+ */
+export async function writeRecording(
+  endpoint: string,
+  params: Record<string, unknown>,
+  data: APIFootballResponse<unknown>
+): Promise<void> {
+  const file = getRecordingPath(endpoint, params);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`, 'utf8');
+    console.log(`● Recorded ${endpoint} → ${path.relative(process.cwd(), file)}`);
+  } catch (error) {
+    console.warn(`⚠️  Failed to record ${endpoint}:`, error);
+  }
+}
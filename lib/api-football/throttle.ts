@@ -0,0 +1,43 @@
+import { sleep } from '../utils/abort';
+
+/**
+ * Request throttle shared by everything that calls API-Football.
+ * Each caller reserves the next free slot up front, so concurrent callers
+ * queue behind each other instead of all firing after the same delay.
+ */
+export class RequestThrottle {
+  private nextSlot = 0;
+  private minDelayMs: number;
+
+  constructor(requestsPerMinute: number = 30) {
+    // Calculate minimum delay to stay within rate limit
+    this.minDelayMs = Math.ceil(60000 / requestsPerMinute);
+  }
+
+  async throttle(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.minDelayMs;
+
+    if (slot > now) {
+      try {
+        await sleep(slot - now, signal);
+      } catch (error) {
+        // Hand the slot back if nobody queued behind it
+        if (this.nextSlot === slot + this.minDelayMs) {
+          this.nextSlot = slot;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+// API-Football free plans: 10 requests/minute limit
+// Use 5-6 req/min for safety margin (avoid rate limit errors)
+const rpm = Number.parseInt(process.env.APIFOOTBALL_REQUESTS_PER_MINUTE || '5', 10);
+
+// Singleton instance: the rate budget is per API key, not per report
+export const apiFootballThrottle = new RequestThrottle(Number.isFinite(rpm) && rpm > 0 ? rpm : 5);
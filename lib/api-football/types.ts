@@ -156,6 +156,41 @@ export interface Standing {
 
 export interface H2HMatch extends FixtureData {}
 
+export interface PlayerStatistics {
+  team: Team;
+  league: League;
+  games: {
+    appearences: number | null; // sic (API-Football spelling)
+    minutes: number | null;
+    position: string | null;
+    rating: string | null;
+  };
+  goals: {
+    total: number | null;
+    assists: number | null;
+    conceded: number | null;
+  };
+  cards: {
+    yellow: number | null;
+    red: number | null;
+  };
+}
+
+export interface PlayerData {
+  player: {
+    id: number;
+    name: string;
+    firstname: string | null;
+    lastname: string | null;
+    age: number | null;
+    nationality: string | null;
+    injured: boolean;
+    photo: string;
+  };
+  // One entry per team/competition the player appeared in that season
+  statistics: PlayerStatistics[];
+}
+
 // Request parameter types
 export interface GetFixturesParams {
   id?: number;
@@ -187,6 +222,7 @@ export interface GetLineupsParams {
 
 export interface GetH2HParams {
   h2h: string; // "teamId1-teamId2"
+  last?: number;
 }
 
 export interface GetStandingsParams {
@@ -195,6 +231,16 @@ export interface GetStandingsParams {
   team?: number;
 }
 
+export interface GetPlayersParams {
+  season: number;
+  id?: number;
+  // Player name (at least 4 characters); requires team or league
+  search?: string;
+  team?: number;
+  league?: number;
+  page?: number;
+}
+
 // Predictions API types
 export interface Prediction {
   winner: {
@@ -36,6 +36,13 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+export class CancelledError extends AppError {
+  constructor(operation: string) {
+    super(`${operation} was cancelled`, 'CANCELLED', 499);
+    this.name = 'CancelledError';
+  }
+}
+
 /**
  * Handle errors and return appropriate HTTP response
  */
@@ -0,0 +1,125 @@
+import { EvalCaseResult, EvalRun, EvalSummary } from './runner';
+
+type Direction = 'higher' | 'lower' | 'neutral';
+
+interface Metric {
+  label: string;
+  value: (summary: EvalSummary) => number | null;
+  format: (value: number) => string;
+  // Which way is an improvement
+  better: Direction;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const decimal = (value: number) => value.toFixed(1);
+const integer = (value: number) => Math.round(value).toLocaleString('en-US');
+
+const METRICS: Metric[] = [
+  { label: 'Schema validity', value: (s) => s.schemaValidity, format: percent, better: 'higher' },
+  { label: 'Factual consistency', value: (s) => s.factualConsistency, format: percent, better: 'higher' },
+  { label: 'Signal coverage', value: (s) => s.signalCoverage, format: percent, better: 'higher' },
+  { label: 'Talking points', value: (s) => s.talkingPoints, format: decimal, better: 'neutral' },
+  { label: 'Talking points in range', value: (s) => s.talkingPointsInRange, format: percent, better: 'higher' },
+  { label: 'Words', value: (s) => s.wordCount, format: integer, better: 'neutral' },
+  { label: 'Duplication', value: (s) => s.duplication, format: percent, better: 'lower' },
+  { label: 'Tokens', value: (s) => s.tokens, format: integer, better: 'lower' },
+  { label: 'Cost (USD)', value: (s) => s.costUsd, format: (value) => `$${value.toFixed(4)}`, better: 'lower' },
+  { label: 'Duration (s)', value: (s) => s.durationMs / 1000, format: decimal, better: 'lower' },
+];
+
+// The report stages (the ones with versioned prompts)
+type ReportStage = keyof EvalRun['promptVersions'];
+const STAGES: ReportStage[] = ['signal', 'category', 'final'];
+
+function formatDelta(metric: Metric, baseline: number | null, candidate: number | null): string {
+  if (baseline === null || candidate === null) return '–';
+
+  const delta = candidate - baseline;
+  if (Math.abs(delta) < 1e-9) return '=';
+
+  const sign = delta > 0 ? '+' : '-';
+  const marker = metric.better === 'neutral'
+    ? ''
+    : (delta > 0) === (metric.better === 'higher') ? ' ✓' : ' ⚠️';
+  return `${sign}${metric.format(Math.abs(delta))}${marker}`;
+}
+
+function formatValue(metric: Metric, value: number | null): string {
+  return value === null ? 'n/a' : metric.format(value);
+}
+
+function describeModels(run: EvalRun): Record<ReportStage, string> {
+  return Object.fromEntries(STAGES.map((stage) => {
+    const route = run.stageModels[stage];
+    return [stage, route ? `${route.provider}/${route.model}` : 'n/a'];
+  })) as Record<ReportStage, string>;
+}
+
+function row(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+function caseCell(result: EvalCaseResult | undefined): string {
+  if (!result) return 'not run';
+  if (!result.scores) return `failed: ${result.error ?? 'unknown error'}`;
+
+  const { schemaValidity, factualConsistency, signalCoverage, talkingPoints, wordCount } = result.scores;
+  return [
+    `schema ${percent(schemaValidity)}`,
+    `facts ${factualConsistency === null ? 'n/a' : percent(factualConsistency)}`,
+    `coverage ${percent(signalCoverage)}`,
+    `${talkingPoints} TP`,
+    `${integer(wordCount)} words`,
+  ].join(', ');
+}
+
+/**
+ * Markdown comparison of two evaluation runs: configuration, averaged scores with
+ * deltas (✓ better, ⚠️ worse) and the per-fixture breakdown
+ */
+export function formatComparison(baseline: EvalRun, candidate: EvalRun): string {
+  const lines: string[] = [];
+  const baselineModels = describeModels(baseline);
+  const candidateModels = describeModels(candidate);
+
+  lines.push(`# Report evaluation: ${baseline.name} vs ${candidate.name}`, '');
+
+  lines.push(row(['Configuration', baseline.name, candidate.name]));
+  lines.push(row(['---', '---', '---']));
+  lines.push(row([
+    'Blueprint',
+    `${baseline.blueprint.id}@${baseline.blueprint.version}`,
+    `${candidate.blueprint.id}@${candidate.blueprint.version}`,
+  ]));
+  lines.push(row(['Audience / locale', `${baseline.audienceId} / ${baseline.localeId}`, `${candidate.audienceId} / ${candidate.localeId}`]));
+  for (const stage of STAGES) {
+    lines.push(row([
+      `${stage} model (prompt v)`,
+      `${baselineModels[stage]} (v${baseline.promptVersions[stage]})`,
+      `${candidateModels[stage]} (v${candidate.promptVersions[stage]})`,
+    ]));
+  }
+  lines.push(row(['Fixtures completed', `${baseline.summary.completed}/${baseline.cases.length}`, `${candidate.summary.completed}/${candidate.cases.length}`]));
+  lines.push('');
+
+  lines.push(row(['Metric', baseline.name, candidate.name, 'Δ']));
+  lines.push(row(['---', '---:', '---:', '---:']));
+  for (const metric of METRICS) {
+    const before = metric.value(baseline.summary);
+    const after = metric.value(candidate.summary);
+    lines.push(row([metric.label, formatValue(metric, before), formatValue(metric, after), formatDelta(metric, before, after)]));
+  }
+  lines.push('');
+
+  const fixtureIds = [...new Set([...baseline.cases, ...candidate.cases].map((result) => result.fixtureId))];
+  lines.push(row(['Fixture', baseline.name, candidate.name]));
+  lines.push(row(['---', '---', '---']));
+  for (const fixtureId of fixtureIds) {
+    const before = baseline.cases.find((result) => result.fixtureId === fixtureId);
+    const after = candidate.cases.find((result) => result.fixtureId === fixtureId);
+    const label = (before ?? after)?.label;
+    lines.push(row([`${fixtureId}${label ? ` ${label}` : ''}`, caseCell(before), caseCell(after)]));
+  }
+
+  return lines.join('\n') + '\n';
+}
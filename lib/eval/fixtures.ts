@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { COLLECTED_DATA_KEYS, CollectedData } from '../session/types';
+import { collectDatasets } from '../orchestrator/data-collection';
+
+/**
+ * Stored CollectedData for evaluation runs, one JSON file per fixture:
+ * <EVAL_FIXTURES_DIR>/<fixtureId>.json (default eval/fixtures)
+ */
+
+export interface EvalFixture {
+  fixtureId: number;
+  // Short description for result tables, e.g. "Chelsea vs Arsenal"
+  label: string;
+  recordedAt: string;
+  collectedData: CollectedData;
+}
+
+export function getEvalFixturesDir(): string {
+  return path.resolve(process.env.EVAL_FIXTURES_DIR || 'eval/fixtures');
+}
+
+function fixturePath(fixtureId: number): string {
+  return path.join(getEvalFixturesDir(), `${fixtureId}.json`);
+}
+
+/**
+ * Load stored fixtures (all of them if no IDs are given), ordered by fixture ID
+ */
+export async function loadEvalFixtures(fixtureIds?: number[]): Promise<EvalFixture[]> {
+  const ids = fixtureIds ?? (await fs.readdir(getEvalFixturesDir()))
+    .filter((file) => /^\d+\.json$/.test(file))
+    .map((file) => Number.parseInt(file, 10));
+
+  const fixtures = await Promise.all(ids.map(async (fixtureId) => {
+    const file = fixturePath(fixtureId);
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch {
+      throw new Error(`No stored data for fixture ${fixtureId} (expected ${file})`);
+    }
+
+    const fixture = JSON.parse(raw) as EvalFixture;
+    if (!fixture.collectedData?.fixture) {
+      throw new Error(`Stored data for fixture ${fixtureId} has no fixture details (${file})`);
+    }
+    return fixture;
+  }));
+
+  return fixtures.sort((a, b) => a.fixtureId - b.fixtureId);
+}
+
+/**
+ * Collect every dataset for a fixture (honours APIFOOTBALL_MODE, so replay works offline)
+ * and store it as an evaluation fixture. Returns the file path.
+ */
+export async function snapshotEvalFixture(fixtureId: number): Promise<string> {
+  const collectedData = await collectDatasets({ fixtureId, datasets: [...COLLECTED_DATA_KEYS] });
+  const teams = collectedData.fixture!.teams;
+
+  const fixture: EvalFixture = {
+    fixtureId,
+    label: `${teams.home.name} vs ${teams.away.name}`,
+    recordedAt: new Date().toISOString(),
+    collectedData,
+  };
+
+  const file = fixturePath(fixtureId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  return file;
+}
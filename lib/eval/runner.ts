@@ -0,0 +1,156 @@
+import { sessionManager } from '../session/manager';
+import { blueprintRegistry } from '../report/blueprint-registry';
+import { AudienceId, DEFAULT_AUDIENCE_ID } from '../report/audiences';
+import { DEFAULT_LOCALE_ID, LocaleId } from '../report/locales';
+import { PROMPT_VERSIONS } from '../llm/prompts';
+import { ModelStage, ResolvedStageRoute } from '../llm/routing';
+import { summarizeUsage } from '../llm/usage';
+import { ReportGenerator } from '../orchestrator/generator';
+import { EvalFixture } from './fixtures';
+import { ReportScores, scoreReport } from './scoring';
+
+export interface EvalCaseResult {
+  fixtureId: number;
+  label: string;
+  // Null when generation itself failed
+  scores: ReportScores | null;
+  error?: string;
+  durationMs: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Averages over the cases that completed
+ */
+export interface EvalSummary {
+  completed: number;
+  failed: number;
+  schemaValidity: number;
+  factualConsistency: number | null;
+  signalCoverage: number;
+  talkingPoints: number;
+  talkingPointsInRange: number;
+  wordCount: number;
+  duplication: number;
+  durationMs: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * One configuration evaluated over a set of fixtures (written as JSON by scripts/eval-reports.ts)
+ */
+export interface EvalRun {
+  name: string;
+  createdAt: string;
+  blueprint: { id: string; version: string };
+  audienceId: AudienceId;
+  localeId: LocaleId;
+  promptVersions: Record<keyof typeof PROMPT_VERSIONS, string>;
+  // The routes of the first case (every case resolves the same config)
+  stageModels: Partial<Record<ModelStage, ResolvedStageRoute>>;
+  cases: EvalCaseResult[];
+  summary: EvalSummary;
+}
+
+export interface RunEvaluationParams {
+  name: string;
+  fixtures: EvalFixture[];
+  blueprintId?: string;
+  audienceId?: AudienceId;
+  localeId?: LocaleId;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function summarize(cases: EvalCaseResult[]): EvalSummary {
+  const scores = cases
+    .map((result) => result.scores)
+    .filter((score): score is ReportScores => score !== null);
+  const factual = scores
+    .map((score) => score.factualConsistency)
+    .filter((value): value is number => value !== null);
+
+  return {
+    completed: scores.length,
+    failed: cases.length - scores.length,
+    schemaValidity: mean(scores.map((score) => score.schemaValidity)),
+    factualConsistency: factual.length > 0 ? mean(factual) : null,
+    signalCoverage: mean(scores.map((score) => score.signalCoverage)),
+    talkingPoints: mean(scores.map((score) => score.talkingPoints)),
+    talkingPointsInRange: mean(scores.map((score) => (score.talkingPointsInRange ? 1 : 0))),
+    wordCount: mean(scores.map((score) => score.wordCount)),
+    duplication: mean(scores.map((score) => score.duplication)),
+    durationMs: mean(cases.map((result) => result.durationMs)),
+    tokens: mean(cases.map((result) => result.tokens)),
+    costUsd: mean(cases.map((result) => result.costUsd)),
+  };
+}
+
+/**
+ * Run the full pipeline (signals → categories → final) on each stored fixture with the
+ * current prompts and model routing, and score every report. Fixtures run one at a time.
+ */
+export async function runEvaluation(params: RunEvaluationParams): Promise<EvalRun> {
+  const { name, fixtures, audienceId = DEFAULT_AUDIENCE_ID, localeId = DEFAULT_LOCALE_ID } = params;
+  const blueprint = blueprintRegistry.getBlueprint(params.blueprintId);
+  if (!blueprint) {
+    throw new Error(`Unknown blueprintId: ${params.blueprintId}`);
+  }
+
+  const cases: EvalCaseResult[] = [];
+  let stageModels: EvalRun['stageModels'] = {};
+
+  for (const fixture of fixtures) {
+    console.log(`🔍 Evaluating fixture ${fixture.fixtureId} (${fixture.label})`);
+    const sessionId = sessionManager.createSession({
+      fixtureId: fixture.fixtureId,
+      blueprintId: blueprint.id,
+      blueprintVersion: blueprint.version,
+      audienceId,
+      localeId,
+    });
+
+    const startedAt = Date.now();
+    let error: string | undefined;
+    try {
+      const generator = new ReportGenerator(sessionId, () => {}, {
+        collectedData: fixture.collectedData,
+        bypassCache: true,
+      });
+      await generator.generate();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const session = sessionManager.getSession(sessionId)!;
+    const usage = summarizeUsage(session.usage);
+    if (cases.length === 0) stageModels = session.stageModels;
+
+    cases.push({
+      fixtureId: fixture.fixtureId,
+      label: fixture.label,
+      scores: error ? null : scoreReport(session, blueprintRegistry.getBlueprintForSession(session)),
+      ...(error && { error }),
+      durationMs: Date.now() - startedAt,
+      tokens: usage.totalTokens,
+      costUsd: usage.costUsd,
+    });
+    sessionManager.deleteSession(sessionId);
+  }
+
+  return {
+    name,
+    createdAt: new Date().toISOString(),
+    blueprint: { id: blueprint.id, version: blueprint.version },
+    audienceId,
+    localeId,
+    promptVersions: PROMPT_VERSIONS,
+    stageModels,
+    cases,
+    summary: summarize(cases),
+  };
+}
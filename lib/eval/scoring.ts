@@ -0,0 +1,119 @@
+import { Session } from '../session/types';
+import { ReportBlueprint, getAllSignals } from '../report/blueprint';
+import { FactCheckResult } from '../report/fact-check';
+import { CategoryReportSchema, FinalReportSchema, SignalReportSchema } from '../llm/schemas';
+
+/**
+ * Quality scores for one generated report. Ratios are 0-1, higher is better
+ * except duplication.
+ */
+export interface ReportScores {
+  // Stage outputs (signals, categories, final) that parsed without falling back
+  schemaValidity: number;
+  fallbacks: { signal: number; category: number; final: number };
+  // Numeric claims that matched the collected data (null when nothing was checkable)
+  factualConsistency: number | null;
+  claimsChecked: number;
+  // Blueprint signals that produced a real (non-fallback) analysis
+  signalCoverage: number;
+  talkingPoints: number;
+  // Within the 5-10 the final prompt asks for
+  talkingPointsInRange: boolean;
+  // Words in the final report (markdown)
+  wordCount: number;
+  // Share of repeated word trigrams across the final report's sections and talking points
+  duplication: number;
+}
+
+export const TALKING_POINTS_RANGE = { min: 5, max: 10 } as const;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * 1 - unique/total word trigrams: 0 when no phrase repeats, approaching 1 when everything does
+ */
+export function duplicationRatio(texts: string[]): number {
+  const trigrams: string[] = [];
+  for (const text of texts) {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (let i = 0; i + 2 < words.length; i++) {
+      trigrams.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+    }
+  }
+  if (trigrams.length === 0) return 0;
+  return 1 - new Set(trigrams).size / trigrams.length;
+}
+
+function isSignalFallback(session: Session, key: string): boolean {
+  const report = session.partialReports[key];
+  return !report || report.fallback === true;
+}
+
+function isCategoryFallback(session: Session, categoryId: string): boolean {
+  const report = session.categoryReports[categoryId];
+  return !report || report.fallback === true;
+}
+
+/**
+ * Score a completed session's report against its blueprint
+ */
+export function scoreReport(session: Session, blueprint: ReportBlueprint): ReportScores {
+  const signals = getAllSignals(blueprint);
+  const fallbacks = { signal: 0, category: 0, final: 0 };
+  let valid = 0;
+
+  for (const { categoryId, signal } of signals) {
+    const key = `${categoryId}.${signal.id}`;
+    const report = session.partialReports[key];
+    if (isSignalFallback(session, key)) {
+      fallbacks.signal++;
+    } else if (SignalReportSchema.safeParse(report).success) {
+      valid++;
+    }
+  }
+
+  for (const category of blueprint.categories) {
+    const report = session.categoryReports[category.id];
+    if (isCategoryFallback(session, category.id)) {
+      fallbacks.category++;
+    } else if (CategoryReportSchema.safeParse(report).success) {
+      valid++;
+    }
+  }
+
+  const final = session.structuredReport;
+  if (!final) {
+    fallbacks.final++;
+  } else if (FinalReportSchema.safeParse(final).success) {
+    valid++;
+  }
+
+  // Every fact check recorded on the session, signal and final stages alike
+  const checks: FactCheckResult[] = [
+    ...Object.values(session.partialReports).map((report) => report.factCheck),
+    ...(final?.sections ?? []).map((section) => section.factCheck),
+    final?.talkingPointsFactCheck,
+  ].filter((check): check is FactCheckResult => check !== undefined);
+  const claimsChecked = checks.reduce((sum, check) => sum + check.checked, 0);
+  const claimIssues = checks.reduce((sum, check) => sum + check.issues.length, 0);
+
+  const talkingPoints = final?.quickTalkingPoints.length ?? 0;
+  const outputs = signals.length + blueprint.categories.length + 1;
+
+  return {
+    schemaValidity: valid / outputs,
+    fallbacks,
+    factualConsistency: claimsChecked > 0 ? (claimsChecked - claimIssues) / claimsChecked : null,
+    claimsChecked,
+    signalCoverage: signals.length > 0 ? (signals.length - fallbacks.signal) / signals.length : 0,
+    talkingPoints,
+    talkingPointsInRange: talkingPoints >= TALKING_POINTS_RANGE.min && talkingPoints <= TALKING_POINTS_RANGE.max,
+    wordCount: countWords(session.finalReport ?? ''),
+    duplication: duplicationRatio([
+      ...(final?.sections ?? []).map((section) => section.content),
+      ...(final?.quickTalkingPoints ?? []),
+    ]),
+  };
+}
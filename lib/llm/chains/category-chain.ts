@@ -1,9 +1,14 @@
 import { RunnableSequence } from '@langchain/core/runnables';
-import { getChatModel } from '../model-factory';
-import { categoryPromptTemplate } from '../prompts';
+import { getStructuredChatModel } from '../model-factory';
+import { modelRouting, getRouteModelOptions, ResolvedStageRoute } from '../routing';
+import { UsageCallback, usageCallbacks } from '../usage';
+import { llmResponseCache, ResponseCacheOptions } from '../response-cache';
+import { categoryPromptTemplate, PROMPT_VERSIONS } from '../prompts';
 import { CategoryReportSchema, CategoryReportOutput } from '../schemas';
-import { PartialReport } from '../../session/types';
+import { Insight, PartialReport } from '../../session/types';
 import { truncateText } from '../utils/text';
+import { AudienceProfile, getAudienceProfile, getAudiencePromptVariables } from '../../report/audiences';
+import { LocaleProfile, getLocaleProfile, getLocalePromptVariables } from '../../report/locales';
 
 export interface CategoryChainInput {
   homeTeam: string;
@@ -17,9 +22,8 @@ export interface CategoryChainInput {
 /**
  * Create a category merge chain
  */
-export function createCategoryChain() {
-  const model = getChatModel();
-  const structuredModel = model.withStructuredOutput(CategoryReportSchema);
+export function createCategoryChain(route: ResolvedStageRoute = modelRouting.getRoute('category'), apiKey?: string) {
+  const structuredModel = getStructuredChatModel(CategoryReportSchema, getRouteModelOptions(route, apiKey));
 
   return RunnableSequence.from([
     categoryPromptTemplate,
@@ -27,21 +31,62 @@ export function createCategoryChain() {
   ]);
 }
 
+export interface MergeCategoryOptions {
+  signal?: AbortSignal;
+  audience?: AudienceProfile;
+  locale?: LocaleProfile;
+  route?: ResolvedStageRoute;
+  // The user's own API key (replaces the server key on routes to its provider)
+  apiKey?: string;
+  onUsage?: UsageCallback;
+  cache?: ResponseCacheOptions;
+}
+
 /**
  * Execute category merge
  */
-export async function mergeCategory(input: CategoryChainInput): Promise<CategoryReportOutput> {
-  const chain = createCategoryChain();
+export async function mergeCategory(
+  input: CategoryChainInput,
+  options: MergeCategoryOptions = {}
+): Promise<CategoryReportOutput> {
+  const route = options.route ?? modelRouting.getRoute('category');
+  const audience = options.audience ?? getAudienceProfile();
+  const promptInput = {
+    ...input,
+    ...getAudiencePromptVariables(audience, 'category'),
+    ...getLocalePromptVariables(options.locale ?? getLocaleProfile()),
+  };
+
+  const cacheKey = { stage: 'category' as const, route, promptVersion: PROMPT_VERSIONS.category, inputs: promptInput };
+  const cached = await llmResponseCache.get<CategoryReportOutput>(cacheKey, options.cache);
+  if (cached) return cached;
+
+  const chain = createCategoryChain(route, options.apiKey);
   
   try {
-    const result = await chain.invoke(input);
+    const result = await chain.invoke(promptInput, {
+      signal: options.signal,
+      callbacks: usageCallbacks(options.onUsage),
+    });
+    if (Array.isArray(result.sections) && result.sections.length > 0) {
+      await llmResponseCache.set(cacheKey, result);
+    }
     return result as CategoryReportOutput;
   } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
     console.error('Category chain error:', error);
     throw new Error(`Failed to merge category "${input.categoryName}": ${error}`);
   }
 }
 
+function formatInsight(insight: Insight): string {
+  return insight.sources.length > 0
+    ? `- ${insight.text} [sources: ${insight.sources.join(', ')}]`
+    : `- ${insight.text}`;
+}
+
 /**
  * Helper to format partial reports for category merge
  */
@@ -54,7 +99,7 @@ export function formatPartialReportsForCategory(partialReports: PartialReport[])
 ### Signal ${index + 1}: ${report.title} ${report.emoji}
 
 **Insights:**
-${insights.map((insight) => `- ${insight}`).join('\n')}
+${insights.map(formatInsight).join('\n')}
 
 **Narrative:**
 ${narrative}
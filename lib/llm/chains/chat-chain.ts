@@ -1,30 +1,148 @@
-import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { StringOutputParser } from '@langchain/core/output_parsers';
-import { RunnableSequence } from '@langchain/core/runnables';
+import {
+  AIMessageChunk,
+  BaseMessage,
+  HumanMessage,
+  MessageContent,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
 import { getChatModel } from '../model-factory';
+import { modelRouting, getRouteModelOptions, ResolvedStageRoute } from '../routing';
+import { UsageCallback, usageCallbacks } from '../usage';
+import { StructuredToolInterface } from '@langchain/core/tools';
+import { ChatToolCall, createChatTools } from '../chat-tools';
+import { formatChatMemory, updateChatSummary } from './chat-memory-chain';
 import { Session } from '../../session/types';
+import { formatLocaleDate, getLocaleProfile } from '../../report/locales';
+import { getAllSignals } from '../../report/blueprint';
+import { blueprintRegistry } from '../../report/blueprint-registry';
 import { webSearchClient } from '../../search/web-search';
+import { RetrievalSource } from '../../retrieval/chunks';
+import { RetrievedChunk, retrievalIndex } from '../../retrieval/session-index';
 
 export interface ChatChainInput {
   session: Session;
   userQuestion: string;
   enableWebSearch?: boolean;
+  // Defaults to the configured route for the chat stage
+  route?: ResolvedStageRoute;
+  // The user's own API key (replaces the server key on routes to its provider)
+  apiKey?: string;
+  onUsage?: UsageCallback;
+  // Stops the model stream (e.g. when the client disconnects)
+  signal?: AbortSignal;
 }
 
 /**
- * Create chat prompt with session context
+ * How a chat reply was produced (sent with the final frame)
  */
-function createChatPrompt(session: Session, webSearchContext = ''): ChatPromptTemplate {
+export interface ChatReplyMetadata {
+  // Web search results were added to the context
+  webSearch: boolean;
+  // Report and data excerpts retrieved for the question
+  sources: RetrievalSource[];
+  // Parts of the analysis not written yet when the question was asked
+  pending: string[];
+  // Generation is no longer running (finished, failed or cancelled), so pending parts won't be written
+  analysisUnavailable: boolean;
+  provider: ResolvedStageRoute['provider'];
+  model: string;
+}
+
+/**
+ * Frames of the POST /api/chat event stream: text deltas as the model produces them
+ * and tool call updates, then either `done` (the full reply, now saved to chatHistory) or `error`
+ */
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'tool'; data: ChatToolCall }
+  | { event: 'done'; data: ChatReplyMetadata & { content: string; toolCalls: ChatToolCall[] } }
+  | { event: 'error'; data: { message: string } };
+
+export type ChatAgentEvent = { type: 'delta'; text: string } | { type: 'tool'; call: ChatToolCall };
+
+export interface ChatStream {
+  metadata: ChatReplyMetadata;
+  // Reply text as the model streams it, interleaved with tool calls
+  events: AsyncIterable<ChatAgentEvent>;
+}
+
+// Model calls per reply; the last one must answer (tool calls are refused)
+const MAX_MODEL_CALLS = 5;
+
+// Report and data chunks added to the prompt per question
+const RETRIEVED_CHUNKS = 6;
+
+/**
+ * Signals, category summaries and the final report not written yet
+ * (chat opens while the report is still generating)
+ */
+export function getPendingAnalysis(session: Session): string[] {
+  const blueprint = blueprintRegistry.getBlueprintForSession(session);
+  const pending: string[] = [];
+
+  for (const { categoryId, signal } of getAllSignals(blueprint)) {
+    if (!session.partialReports[`${categoryId}.${signal.id}`]) pending.push(signal.name);
+  }
+  for (const category of blueprint.categories) {
+    if (!session.categoryReports[category.id]) pending.push(`${category.name} summary`);
+  }
+  if (!session.finalReport) pending.push('Final report');
+  return pending;
+}
+
+/**
+ * Whether the parts still missing will never be written (generation is not running)
+ */
+export function isAnalysisUnavailable(session: Session): boolean {
+  return session.status !== 'pending' && session.status !== 'generating';
+}
+
+/**
+ * Retrieve excerpts for the question. The previous question is included so
+ * follow-ups ("and their defence?") still find the right context.
+ */
+async function retrieveContext(session: Session, userQuestion: string, apiKey?: string): Promise<RetrievedChunk[]> {
+  const previous = session.chatHistory.filter((msg) => msg.role === 'user').at(-1)?.content;
+  const query = previous ? `${previous}\n${userQuestion}` : userQuestion;
+  return retrievalIndex.search(session, query, RETRIEVED_CHUNKS, apiKey);
+}
+
+/**
+ * Unique sources of the retrieved chunks, in retrieval order
+ */
+function uniqueSources(chunks: RetrievedChunk[]): RetrievalSource[] {
+  const sources: RetrievalSource[] = [];
+  for (const { source } of chunks) {
+    if (!sources.some((known) => known.kind === source.kind && known.ref === source.ref)) {
+      sources.push(source);
+    }
+  }
+  return sources;
+}
+
+/**
+ * System and question messages with the session context
+ */
+function createChatMessages(
+  session: Session,
+  userQuestion: string,
+  excerpts: RetrievedChunk[],
+  pending: string[],
+  webSearchContext = ''
+): BaseMessage[] {
+  const locale = getLocaleProfile(session.localeId);
+
   // Build context from session
   const fixtureContext = session.collectedData.fixture
     ? `Match: ${session.collectedData.fixture.teams.home.name} vs ${session.collectedData.fixture.teams.away.name}
 League: ${session.collectedData.fixture.league.name}
-Date: ${new Date(session.collectedData.fixture.fixture.date).toLocaleString()}
+Date: ${formatLocaleDate(session.collectedData.fixture.fixture.date, locale, { dateStyle: 'full', timeStyle: 'short' })}
 Venue: ${session.collectedData.fixture.fixture.venue.name || 'TBD'}`
     : 'No fixture data available';
 
-  const reportSummary = session.finalReport
-    ? session.finalReport.substring(0, 2000) // First 2000 chars
+  const reportExcerpts = excerpts.length > 0
+    ? excerpts.map((chunk, i) => `[${i + 1}] ${chunk.source.label}\n${chunk.text}`).join('\n\n')
     : 'Report not yet generated';
 
   const dataSummary = `
@@ -36,61 +154,95 @@ Available Data:
 - Standings: ${session.collectedData.standings ? 'Available' : 'Not available'}
 `;
 
-  // Last 10 chat messages
-  const chatHistory = session.chatHistory
-    .slice(-10)
-    .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-    .join('\n');
+  const analysisStatus = pending.length === 0
+    ? ''
+    : isAnalysisUnavailable(session)
+    ? `\n**Analysis Status:**
+Report generation stopped before these parts were written: ${pending.join(', ')}. They are unavailable.
+Answer from the match data and the finished sections. When a question depends on a missing part, say clearly that this analysis is unavailable for this report.
+`
+    : `\n**Analysis Status:**
+The report is still being generated. Not written yet: ${pending.join(', ')}.
+Answer from the match data and the finished sections. When a question depends on a part that is not written yet, say clearly that it is still being analysed.
+`;
 
   const systemMessage = `You are a professional football (soccer) analyst assistant. You have access to a comprehensive pre-match report and match data.
 
 **Match Context:**
 ${fixtureContext}
 
-${dataSummary}
-
-**Report Summary:**
-${reportSummary}${webSearchContext}
+${dataSummary}${analysisStatus}
+**Relevant Report and Data Excerpts:**
+${reportExcerpts}${webSearchContext}
 
 **Instructions:**
-- Answer questions based on the report and available data
+- Answer questions based on the excerpts above and the available data
+- Use the tools to read the collected match data or look up anything else (player statistics, other fixtures, standings, injuries, head-to-head) instead of guessing
 - Be specific and cite data when possible
 - If information is not available, say so clearly
 - Maintain a professional yet friendly tone
 - Keep responses concise (2-4 paragraphs max)
 - Use bullet points for lists
-- Write in English
+- Always reply in ${locale.language}, even if the question is asked in another language
+- When the user asks you to remember something (a preference, a fact, a focus for later), save it with remember_fact; use forget_fact when they take it back
 
-**Recent Chat History:**
-${chatHistory || 'No previous messages'}
+${formatChatMemory(session)}
 
 Now answer the user's question based on the context above.`;
 
-  return ChatPromptTemplate.fromMessages([
-    ['system', systemMessage],
-    ['human', '{userQuestion}'],
-  ]);
+  return [new SystemMessage(systemMessage), new HumanMessage(userQuestion)];
+}
+
+function contentText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  // Content blocks (e.g. Anthropic): keep the text, skip tool-use JSON
+  return content
+    .map((block) => (block.type === 'text' && 'text' in block ? String(block.text) : ''))
+    .join('');
 }
 
 /**
- * Create chat chain
+ * Run the requested tool calls, appending their results for the next model call
  */
-export function createChatChain(session: Session, webSearchContext = '') {
-  const model = getChatModel({ maxCompletionTokens: 900 });
-  const prompt = createChatPrompt(session, webSearchContext);
-  const outputParser = new StringOutputParser();
-
-  return RunnableSequence.from([
-    prompt,
-    model,
-    outputParser,
-  ]);
+async function* runToolCalls(
+  response: AIMessageChunk,
+  tools: StructuredToolInterface[],
+  messages: BaseMessage[],
+  allowed: boolean
+): AsyncGenerator<ChatAgentEvent> {
+  for (const toolCall of response.tool_calls ?? []) {
+    const id = toolCall.id ?? `call_${messages.length}`;
+    const call: ChatToolCall = { id, name: toolCall.name, args: toolCall.args, status: 'running' };
+    const selected = tools.find((candidate) => candidate.name === toolCall.name);
+
+    if (!allowed || !selected) {
+      const content = selected
+        ? 'Tool call limit reached. Answer with the information you already have.'
+        : `Unknown tool "${toolCall.name}"`;
+      messages.push(new ToolMessage({ tool_call_id: id, content, status: 'error' }));
+      continue;
+    }
+
+    yield { type: 'tool', call };
+    try {
+      const content = await selected.invoke(toolCall.args);
+      messages.push(new ToolMessage({ tool_call_id: id, content: String(content) }));
+      yield { type: 'tool', call: { ...call, status: 'completed' } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      messages.push(new ToolMessage({ tool_call_id: id, content: `Error: ${message}`, status: 'error' }));
+      yield { type: 'tool', call: { ...call, status: 'failed', error: message } };
+    }
+  }
 }
 
 /**
- * Execute chat interaction with optional web search
+ * Start a chat reply with optional web search. The conversation summary update,
+ * retrieval and search run first; the model then answers as a tool-calling agent,
+ * streaming its text as it goes.
  */
-export async function chatWithContext(input: ChatChainInput): Promise<string> {
+export async function streamChatWithContext(input: ChatChainInput): Promise<ChatStream> {
+  const route = input.route ?? modelRouting.getRoute('chat');
   let webSearchContext = '';
 
   // Optionally augment with web search if enabled and query seems to need fresh data
@@ -121,16 +273,49 @@ export async function chatWithContext(input: ChatChainInput): Promise<string> {
     }
   }
 
-  const chain = createChatChain(input.session, webSearchContext);
-  
-  try {
-    const response = await chain.invoke({
-      userQuestion: input.userQuestion,
-    });
-    
-    return response;
-  } catch (error) {
-    console.error('Chat chain error:', error);
-    throw new Error(`Failed to process chat: ${error}`);
+  const model = getChatModel(getRouteModelOptions(route, input.apiKey));
+  if (!model.bindTools) {
+    throw new Error(`The ${route.provider} chat model does not support tool calling`);
   }
+  const tools = createChatTools(input.session, input.signal);
+  const agent = model.bindTools(tools);
+  await updateChatSummary({
+    session: input.session,
+    route,
+    apiKey: input.apiKey,
+    onUsage: input.onUsage,
+    signal: input.signal,
+  });
+  const excerpts = await retrieveContext(input.session, input.userQuestion, input.apiKey);
+  const pending = getPendingAnalysis(input.session);
+  const messages = createChatMessages(input.session, input.userQuestion, excerpts, pending, webSearchContext);
+
+  async function* run(): AsyncGenerator<ChatAgentEvent> {
+    for (let call = 1; call <= MAX_MODEL_CALLS; call++) {
+      let response: AIMessageChunk | undefined;
+      const stream = await agent.stream(messages, { signal: input.signal, callbacks: usageCallbacks(input.onUsage) });
+      for await (const chunk of stream) {
+        response = response ? response.concat(chunk) : chunk;
+        const text = contentText(chunk.content);
+        if (text) yield { type: 'delta', text };
+      }
+
+      if (!response?.tool_calls?.length) return;
+      messages.push(response);
+      yield* runToolCalls(response, tools, messages, call < MAX_MODEL_CALLS - 1);
+    }
+    throw new Error('No answer within the tool call limit');
+  }
+
+  return {
+    metadata: {
+      webSearch: webSearchContext !== '',
+      sources: uniqueSources(excerpts),
+      pending,
+      analysisUnavailable: isAnalysisUnavailable(input.session),
+      provider: route.provider,
+      model: route.model,
+    },
+    events: run(),
+  };
 }
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatChatMemory, updateChatSummary } from './chat-memory-chain';
+import { modelRouting } from '../routing';
+import { sessionManager } from '../../session/manager';
+import { ChatMessage, Session } from '../../session/types';
+
+// Model routes are resolved once, on import
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = 'fake';
+  delete process.env.LLM_ROUTING_CONFIG;
+});
+
+function createSession(messages: number): Session {
+  const sessionId = sessionManager.createSession({
+    fixtureId: 1208125,
+    blueprintId: 'default',
+    blueprintVersion: '1.0.0',
+    audienceId: 'commentator',
+    localeId: 'en',
+  });
+  for (let i = 1; i <= messages; i++) {
+    const message: ChatMessage = { role: i % 2 ? 'user' : 'assistant', content: `Message ${i}`, timestamp: i };
+    sessionManager.updateSession(sessionId, { chatMessage: message });
+  }
+  return sessionManager.getSession(sessionId)!;
+}
+
+describe('formatChatMemory', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('shows pinned facts, then the summary, then the messages it does not cover', () => {
+    const session = createSession(4);
+    sessionManager.updateSession(session.sessionId, {
+      chatMemory: {
+        summary: 'The user follows Chelsea.',
+        summarizedCount: 2,
+        pinnedFacts: [{ id: 'f1', text: 'Wants betting angles', pinnedAt: 1 }],
+      },
+    });
+
+    expect(formatChatMemory(session)).toBe(
+      [
+        '**Facts the user asked you to remember:**\n- (f1) Wants betting angles',
+        '**Earlier in this conversation:**\nThe user follows Chelsea.',
+        '**Recent Chat History:**\nUser: Message 3\nAssistant: Message 4',
+      ].join('\n\n')
+    );
+  });
+
+  it('keeps the newest messages that fit the token budget', () => {
+    vi.stubEnv('CHAT_MEMORY_TOKEN_BUDGET', '12');
+    const session = createSession(6);
+
+    // Each "User: Message n" line is about 4 tokens
+    expect(formatChatMemory(session)).toBe('**Recent Chat History:**\nUser: Message 5\nAssistant: Message 6');
+  });
+
+  it('says so when there is no history yet', () => {
+    expect(formatChatMemory(createSession(0))).toBe('**Recent Chat History:**\nNo previous messages');
+  });
+});
+
+describe('updateChatSummary', () => {
+  const route = modelRouting.getRoute('chat');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('leaves short conversations alone', async () => {
+    const session = createSession(12);
+    await updateChatSummary({ session, route });
+
+    expect(session.chatMemory).toMatchObject({ summary: '', summarizedCount: 0 });
+  });
+
+  it('folds all but the six most recent messages into the summary', async () => {
+    const session = createSession(13);
+    const onUsage = vi.fn();
+    await updateChatSummary({ session, route, onUsage });
+
+    expect(session.chatMemory.summary).not.toBe('');
+    expect(session.chatMemory.summarizedCount).toBe(7);
+    expect(onUsage).toHaveBeenCalled();
+    expect(formatChatMemory(session)).toContain('**Recent Chat History:**\nAssistant: Message 8\n');
+  });
+
+  it('keeps the old summary when the model fails, to retry on the next question', async () => {
+    vi.stubEnv('LLM_FAKE_FAILURES', 'chat:always');
+    const session = createSession(13);
+    await updateChatSummary({ session, route });
+
+    expect(session.chatMemory).toMatchObject({ summary: '', summarizedCount: 0 });
+    expect(console.warn).toHaveBeenCalledWith('⚠️  Chat summary update failed:', expect.stringContaining('Injected'));
+  });
+
+  it('rethrows a failure once the question was cancelled', async () => {
+    vi.stubEnv('LLM_FAKE_FAILURES', 'chat:always');
+    const session = createSession(13);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(updateChatSummary({ session, route, signal: controller.signal })).rejects.toThrow('Injected');
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(session.chatMemory.summarizedCount).toBe(0);
+  });
+});
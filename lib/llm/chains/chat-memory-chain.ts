@@ -0,0 +1,128 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { getChatModel } from '../model-factory';
+import { getRouteModelOptions, ResolvedStageRoute } from '../routing';
+import { UsageCallback, usageCallbacks } from '../usage';
+import { estimateTokens, truncateText } from '../utils/text';
+import { sessionManager } from '../../session/manager';
+import { ChatMessage, Session } from '../../session/types';
+import { getLocaleProfile } from '../../report/locales';
+
+/**
+ * Long-conversation memory for chat: older messages are folded into a rolling
+ * summary written by the model, and pinned facts (see the remember_fact tool)
+ * are kept verbatim. formatChatMemory fits both, plus the recent messages,
+ * into the prompt's token budget.
+ */
+
+// Messages always left out of the summary (the prompt shows them verbatim)
+const RECENT_MESSAGES = 6;
+// Summarize once this many messages aren't covered by the summary yet...
+const SUMMARIZE_AFTER_MESSAGES = 12;
+// ...or once they would take this share of the budget
+const SUMMARIZE_AFTER_BUDGET_SHARE = 0.5;
+const SUMMARY_MAX_WORDS = 250;
+
+export const MAX_PINNED_FACTS = 20;
+
+function getMemoryTokenBudget(): number {
+  return parseInt(process.env.CHAT_MEMORY_TOKEN_BUDGET || '2000');
+}
+
+function formatMessage(msg: ChatMessage): string {
+  return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+}
+
+export interface UpdateChatSummaryParams {
+  session: Session;
+  route: ResolvedStageRoute;
+  apiKey?: string;
+  onUsage?: UsageCallback;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fold older messages into the session's summary when the uncovered history has
+ * grown too long. A failed update is logged and retried on the next question.
+ */
+export async function updateChatSummary({
+  session,
+  route,
+  apiKey,
+  onUsage,
+  signal,
+}: UpdateChatSummaryParams): Promise<void> {
+  const { summary, summarizedCount } = session.chatMemory;
+  const uncovered = session.chatHistory.slice(summarizedCount);
+  const uncoveredTokens = estimateTokens(uncovered.map(formatMessage).join('\n'));
+
+  const tooLong =
+    uncovered.length > SUMMARIZE_AFTER_MESSAGES ||
+    uncoveredTokens > getMemoryTokenBudget() * SUMMARIZE_AFTER_BUDGET_SHARE;
+  if (!tooLong || uncovered.length <= RECENT_MESSAGES) return;
+
+  const upTo = session.chatHistory.length - RECENT_MESSAGES;
+  const toFold = session.chatHistory.slice(summarizedCount, upTo);
+  const locale = getLocaleProfile(session.localeId);
+
+  const system = `You maintain the memory of a conversation between a user and a football analyst assistant about one match report.
+Update the summary with the new messages. Keep what the user wants to know, their preferences, conclusions reached and any numbers or names discussed; drop small talk.
+Write at most ${SUMMARY_MAX_WORDS} words in ${locale.language}, as plain sentences. Reply with the updated summary only.`;
+
+  const input = `**Current summary:**
+${summary || 'None yet'}
+
+**New messages:**
+${toFold.map(formatMessage).join('\n')}`;
+
+  try {
+    const model = getChatModel(getRouteModelOptions(route, apiKey));
+    const response = await model.invoke([new SystemMessage(system), new HumanMessage(input)], {
+      signal,
+      callbacks: usageCallbacks(onUsage),
+    });
+    const updated = typeof response.content === 'string' ? response.content.trim() : '';
+    if (!updated) throw new Error('The model returned an empty summary');
+
+    sessionManager.updateSession(session.sessionId, {
+      chatMemory: { summary: updated, summarizedCount: upTo },
+    });
+    console.log(`💾 Chat summary updated for session ${session.sessionId} (${upTo} messages covered)`);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('⚠️  Chat summary update failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Pinned facts, the summary and as many recent messages as fit in the token budget
+ * (CHAT_MEMORY_TOKEN_BUDGET), in that order of priority
+ */
+export function formatChatMemory(session: Session): string {
+  let remaining = getMemoryTokenBudget();
+  const parts: string[] = [];
+  const { summary, summarizedCount, pinnedFacts } = session.chatMemory;
+
+  if (pinnedFacts.length > 0) {
+    const facts = `**Facts the user asked you to remember:**\n${pinnedFacts.map((fact) => `- (${fact.id}) ${fact.text}`).join('\n')}`;
+    parts.push(facts);
+    remaining -= estimateTokens(facts);
+  }
+
+  if (summary && remaining > 0) {
+    const text = `**Earlier in this conversation:**\n${truncateText(summary, remaining * 4)}`;
+    parts.push(text);
+    remaining -= estimateTokens(text);
+  }
+
+  // Newest first until the budget runs out
+  const recent: string[] = [];
+  for (const msg of session.chatHistory.slice(summarizedCount).reverse()) {
+    const line = formatMessage(msg);
+    remaining -= estimateTokens(line);
+    if (remaining < 0) break;
+    recent.unshift(line);
+  }
+  parts.push(`**Recent Chat History:**\n${recent.join('\n') || 'No previous messages'}`);
+
+  return parts.join('\n\n');
+}
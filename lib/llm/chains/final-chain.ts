@@ -1,9 +1,14 @@
 import { RunnableSequence } from '@langchain/core/runnables';
-import { getChatModel } from '../model-factory';
-import { finalPromptTemplate } from '../prompts';
+import { getStructuredChatModel } from '../model-factory';
+import { modelRouting, getRouteModelOptions, ResolvedStageRoute } from '../routing';
+import { UsageCallback, usageCallbacks } from '../usage';
+import { llmResponseCache, ResponseCacheOptions } from '../response-cache';
+import { finalPromptTemplate, PROMPT_VERSIONS } from '../prompts';
 import { FinalReportSchema, FinalReportOutput } from '../schemas';
 import { CategoryReport } from '../../session/types';
 import { truncateText } from '../utils/text';
+import { AudienceProfile, getAudienceProfile, getAudiencePromptVariables } from '../../report/audiences';
+import { LocaleProfile, formatLocaleDate, getLocaleProfile, getLocalePromptVariables } from '../../report/locales';
 
 export interface FinalChainInput {
   homeTeam: string;
@@ -17,9 +22,8 @@ export interface FinalChainInput {
 /**
  * Create a final synthesis chain
  */
-export function createFinalChain() {
-  const model = getChatModel({ maxCompletionTokens: 3000 });
-  const structuredModel = model.withStructuredOutput(FinalReportSchema);
+export function createFinalChain(route: ResolvedStageRoute = modelRouting.getRoute('final'), apiKey?: string) {
+  const structuredModel = getStructuredChatModel(FinalReportSchema, getRouteModelOptions(route, apiKey));
 
   return RunnableSequence.from([
     finalPromptTemplate,
@@ -27,16 +31,49 @@ export function createFinalChain() {
   ]);
 }
 
+export interface SynthesizeFinalOptions {
+  signal?: AbortSignal;
+  audience?: AudienceProfile;
+  locale?: LocaleProfile;
+  route?: ResolvedStageRoute;
+  // The user's own API key (replaces the server key on routes to its provider)
+  apiKey?: string;
+  onUsage?: UsageCallback;
+  cache?: ResponseCacheOptions;
+}
+
 /**
  * Execute final report synthesis
  */
-export async function synthesizeFinalReport(input: FinalChainInput): Promise<FinalReportOutput> {
-  const chain = createFinalChain();
+export async function synthesizeFinalReport(
+  input: FinalChainInput,
+  options: SynthesizeFinalOptions = {}
+): Promise<FinalReportOutput> {
+  const route = options.route ?? modelRouting.getRoute('final');
+  const audience = options.audience ?? getAudienceProfile();
+  const promptInput = {
+    ...input,
+    ...getAudiencePromptVariables(audience, 'final'),
+    ...getLocalePromptVariables(options.locale ?? getLocaleProfile()),
+  };
+
+  const cacheKey = { stage: 'final' as const, route, promptVersion: PROMPT_VERSIONS.final, inputs: promptInput };
+  const cached = await llmResponseCache.get<FinalReportOutput>(cacheKey, options.cache);
+  if (cached) return cached;
+
+  const chain = createFinalChain(route, options.apiKey);
   
   try {
-    const result = await chain.invoke(input);
+    const result = await chain.invoke(promptInput, {
+      signal: options.signal,
+      callbacks: usageCallbacks(options.onUsage),
+    });
+    await llmResponseCache.set(cacheKey, result);
     return result as FinalReportOutput;
   } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
     console.error('Final chain error:', error);
     throw new Error(`Failed to synthesize final report: ${error}`);
   }
@@ -52,11 +89,12 @@ export function formatCategoryReportsForFinal(categoryReports: Record<string, Ca
       const sectionsText = report.sections
         .map((section) => {
           const sectionContent = truncateText(section.content, 900);
+          const sources = section.sources?.length ? `\n[sources: ${section.sources.join(', ')}]\n` : '';
           return `
 #### ${section.emoji} ${section.title}
 
 ${sectionContent}
-`;
+${sources}`;
         })
         .join('\n');
 
@@ -81,17 +119,30 @@ ${talkingPointsText}
   return truncateText(formatted, 24000);
 }
 
+/**
+ * "Sources:" line listing a section's data references
+ */
+function formatSourcesLine(sources: string[] | undefined, locale: LocaleProfile): string {
+  if (!sources?.length) return '';
+  return `\n*${locale.messages.markdown.sources}:* ${sources.map((source) => `\`${source}\``).join(' · ')}\n`;
+}
+
 /**
  * Format final report output as readable markdown
  */
-export function formatFinalReportAsMarkdown(report: FinalReportOutput): string {
+export function formatFinalReportAsMarkdown(
+  report: FinalReportOutput,
+  locale: LocaleProfile = getLocaleProfile()
+): string {
+  const messages = locale.messages.markdown;
+
   const sections = (report.sections || [])
     .map((section) => {
       return `
 ## ${section.emoji} ${section.title}
 
 ${section.content}
-
+${formatSourcesLine(section.sources, locale)}
 ---
 `;
     })
@@ -108,12 +159,12 @@ ${section.content}
 
 ${sections}
 
-## 🎙️ Quick Talking Points
+## 🎙️ ${messages.quickTalkingPoints}
 
 ${talkingPoints}
 
 ---
 
-*Report generated on ${new Date().toLocaleString()}*
+*${messages.generatedOn(formatLocaleDate(Date.now(), locale, { dateStyle: 'long', timeStyle: 'short' }))}*
 `;
 }
@@ -1,9 +1,16 @@
 import { RunnableSequence } from '@langchain/core/runnables';
-import { getChatModel } from '../model-factory';
-import { signalPromptTemplate } from '../prompts';
+import { getStructuredChatModel } from '../model-factory';
+import { modelRouting, getRouteModelOptions, ResolvedStageRoute } from '../routing';
+import { UsageCallback, usageCallbacks } from '../usage';
+import { llmResponseCache, ResponseCacheOptions } from '../response-cache';
+import { signalPromptTemplate, PROMPT_VERSIONS } from '../prompts';
 import { SignalReportSchema, SignalReportOutput } from '../schemas';
 import { CollectedData } from '../../session/types';
 import { truncateText } from '../utils/text';
+import { buildSignalData } from '../utils/signal-data';
+import { AudienceProfile, getAudienceProfile, getAudiencePromptVariables } from '../../report/audiences';
+import { LocaleProfile, getLocaleProfile, getLocalePromptVariables } from '../../report/locales';
+import { sleep } from '../../utils/abort';
 
 export interface SignalChainInput {
   homeTeam: string;
@@ -19,12 +26,8 @@ export interface SignalChainInput {
 /**
  * Create a signal processing chain
  */
-export function createSignalChain() {
-  const model = getChatModel();
-  const structuredModel = model.withStructuredOutput(SignalReportSchema, {
-    strict: false,
-    includeRaw: false,
-  });
+export function createSignalChain(route: ResolvedStageRoute = modelRouting.getRoute('signal'), apiKey?: string) {
+  const structuredModel = getStructuredChatModel(SignalReportSchema, getRouteModelOptions(route, apiKey));
 
   return RunnableSequence.from([
     signalPromptTemplate,
@@ -32,63 +35,105 @@ export function createSignalChain() {
   ]);
 }
 
+/**
+ * A signal analysis; `fallback` is set when placeholder text stands in for what
+ * the model failed to write
+ */
+export type SignalAnalysis = SignalReportOutput & { fallback?: boolean };
+
+export interface AnalyzeSignalOptions {
+  maxRetries?: number;
+  signal?: AbortSignal;
+  audience?: AudienceProfile;
+  // Output language (also used for the fallback texts)
+  locale?: LocaleProfile;
+  // Defaults to the configured route for the signal stage
+  route?: ResolvedStageRoute;
+  // The user's own API key (replaces the server key on routes to its provider)
+  apiKey?: string;
+  // Called once per LLM call, retries included
+  onUsage?: UsageCallback;
+  cache?: ResponseCacheOptions;
+}
+
 /**
  * Execute signal analysis with retry and robust error handling
  */
-export async function analyzeSignal(input: SignalChainInput, maxRetries = 2): Promise<SignalReportOutput> {
-  const chain = createSignalChain();
+export async function analyzeSignal(
+  input: SignalChainInput,
+  options: AnalyzeSignalOptions = {}
+): Promise<SignalAnalysis> {
+  const { maxRetries = 2, signal, audience = getAudienceProfile(), locale = getLocaleProfile(), onUsage } = options;
+  const route = options.route ?? modelRouting.getRoute('signal');
+  const promptInput = {
+    ...input,
+    ...getAudiencePromptVariables(audience, 'signal'),
+    ...getLocalePromptVariables(locale),
+  };
+  const messages = locale.messages;
+
+  const cacheKey = { stage: 'signal' as const, route, promptVersion: PROMPT_VERSIONS.signal, inputs: promptInput };
+  const cached = await llmResponseCache.get<SignalReportOutput>(cacheKey, options.cache);
+  if (cached) return cached;
+
+  const chain = createSignalChain(route, options.apiKey);
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const result = await chain.invoke(input);
+      const result = await chain.invoke(promptInput, { signal, callbacks: usageCallbacks(onUsage) });
       
       // Strict validation for all required fields
-      const hasInsights = Array.isArray(result.insights) && result.insights.length > 0;
+      const hasInsights = Array.isArray(result.insights) && result.insights.length > 0 &&
+        result.insights.every((insight) => typeof insight?.text === 'string' && insight.text.length > 0);
       const hasNarrative = typeof result.narrative === 'string' && result.narrative.trim().length > 20;
       const hasEmoji = typeof result.emoji === 'string' && result.emoji.length > 0;
       const hasConfidence = typeof result.confidence === 'number' && result.confidence >= 0 && result.confidence <= 1;
       
       if (hasInsights && hasNarrative && hasEmoji && hasConfidence) {
-        // All fields valid - success!
+        // All fields valid - success! (only complete results are cached)
+        await llmResponseCache.set(cacheKey, result);
         return result as SignalReportOutput;
       }
       
       // Incomplete result - try to salvage or retry
       if (attempt < maxRetries) {
         console.warn(`⚠️  Incomplete result for "${input.signalName}" (attempt ${attempt}/${maxRetries}), retrying...`);
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s before retry
+        await sleep(1000, signal); // Wait 1s before retry
         continue;
       }
       
       // Last attempt - fill missing fields
       console.warn(`⚠️  Filling missing fields for "${input.signalName}" after ${maxRetries} attempts`);
       return {
-        insights: hasInsights ? result.insights : ['Data analysis in progress'],
-        narrative: hasNarrative ? result.narrative : `Analysis for ${input.signalName} is being processed. Key data points are being evaluated to provide comprehensive insights.`,
+        insights: hasInsights ? result.insights : [{ text: messages.signalIncomplete.insight, sources: [] }],
+        narrative: hasNarrative ? result.narrative : messages.signalIncomplete.narrative(input.signalName),
         emoji: hasEmoji ? result.emoji : '⚽',
         confidence: hasConfidence ? result.confidence : 0.5,
+        ...((!hasInsights || !hasNarrative) && { fallback: true }),
       };
       
     } catch (error) {
+      // Cancellation is not a processing failure - never retry or fall back
+      if (signal?.aborted) {
+        throw error;
+      }
+
       console.error(`Signal chain error for "${input.signalName}" (attempt ${attempt}/${maxRetries}):`, error);
       
       if (attempt < maxRetries) {
         console.warn(`Retrying in 1 second...`);
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await sleep(1000, signal);
         continue;
       }
       
       // Final fallback after all retries failed
       console.warn(`⚠️  All retries failed for signal "${input.signalName}", using fallback`);
       return {
-        insights: [
-          `${input.signalName} analysis encountered processing issues`,
-          'Data collection completed but synthesis pending',
-          'Manual review recommended for this section'
-        ],
-        narrative: `The ${input.signalName} analysis could not be fully completed due to processing constraints. The available data has been collected and is ready for manual review. Key metrics and statistics are available in the raw data.`,
+        insights: messages.signalFailed.insights(input.signalName).map((text) => ({ text, sources: [] })),
+        narrative: messages.signalFailed.narrative(input.signalName),
         emoji: '⚽',
         confidence: 0.3,
+        fallback: true,
       };
     }
   }
@@ -104,165 +149,7 @@ export function formatCollectedDataForSignal(
   collectedData: CollectedData,
   dataRequirements: string[]
 ): string {
-  const relevantData: Record<string, unknown> = {};
-
-  const fixture = collectedData.fixture;
-  const homeTeamId = fixture?.teams.home.id;
-  const awayTeamId = fixture?.teams.away.id;
-
-  const compactStatistics = () => {
-    const stats = collectedData.statistics ?? [];
-    const keepTypes = new Set([
-      'Shots on Goal',
-      'Shots off Goal',
-      'Total Shots',
-      'Ball Possession',
-      'Fouls',
-      'Corner Kicks',
-      'Offsides',
-      'Yellow Cards',
-      'Red Cards',
-      'Total passes',
-      'Passes accurate',
-      'Passes %',
-      'Expected Goals',
-    ]);
-    return stats.map((row) => ({
-      team: { id: row.team.id, name: row.team.name },
-      statistics: row.statistics
-        .filter((s) => keepTypes.has(s.type))
-        .slice(0, 20),
-    }));
-  };
-
-  const compactInjuries = () => {
-    const injuries = collectedData.injuries ?? [];
-    return injuries.slice(0, 12).map((inj) => ({
-      team: { id: inj.team.id, name: inj.team.name },
-      player: {
-        id: inj.player.id,
-        name: inj.player.name,
-        type: inj.player.type,
-        reason: inj.player.reason,
-      },
-    }));
-  };
-
-  const compactLineups = () => {
-    const lineups = collectedData.lineups ?? [];
-    return lineups.slice(0, 2).map((lu) => ({
-      team: { id: lu.team.id, name: lu.team.name },
-      formation: lu.formation,
-      coach: { id: lu.coach.id, name: lu.coach.name },
-      startXI: lu.startXI.slice(0, 11).map((p) => ({
-        id: p.player.id,
-        name: p.player.name,
-        number: p.player.number,
-        pos: p.player.pos,
-      })),
-      substitutes: lu.substitutes.slice(0, 9).map((p) => ({
-        id: p.player.id,
-        name: p.player.name,
-        number: p.player.number,
-        pos: p.player.pos,
-      })),
-    }));
-  };
-
-  const compactH2H = () => {
-    const h2h = (collectedData.h2h ?? []).slice(0, 5);
-    return h2h.map((m) => ({
-      fixture: {
-        id: m.fixture.id,
-        date: m.fixture.date,
-        status: m.fixture.status,
-      },
-      league: {
-        id: m.league.id,
-        name: m.league.name,
-        season: m.league.season,
-      },
-      teams: {
-        home: { id: m.teams.home.id, name: m.teams.home.name },
-        away: { id: m.teams.away.id, name: m.teams.away.name },
-      },
-      goals: m.goals,
-      score: {
-        halftime: m.score.halftime,
-        fulltime: m.score.fulltime,
-      },
-    }));
-  };
-
-  const compactStandings = () => {
-    const groups = collectedData.standings ?? [];
-    const table = groups[0] ?? [];
-    const importantTeamIds = new Set<number>(
-      [homeTeamId, awayTeamId].filter((id): id is number => typeof id === 'number')
-    );
-
-    const top = table.slice(0, 8);
-    const teamsRows = table.filter((row) => importantTeamIds.has(row.team.id));
-    const merged = [...top, ...teamsRows].filter(
-      (row, idx, arr) => arr.findIndex((r) => r.team.id === row.team.id) === idx
-    );
-
-    return merged.map((row) => ({
-      rank: row.rank,
-      team: { id: row.team.id, name: row.team.name },
-      points: row.points,
-      goalsDiff: row.goalsDiff,
-      form: row.form,
-      all: row.all,
-    }));
-  };
-
-  for (const requirement of dataRequirements) {
-    if (requirement === 'fixture' && collectedData.fixture) {
-      relevantData.fixture = {
-        teams: collectedData.fixture.teams,
-        league: collectedData.fixture.league,
-        venue: collectedData.fixture.fixture.venue,
-        date: collectedData.fixture.fixture.date,
-        status: collectedData.fixture.fixture.status,
-      };
-    }
-
-    if (requirement === 'statistics' && collectedData.statistics) {
-      relevantData.statistics = compactStatistics();
-    }
-
-    if (requirement === 'injuries' && collectedData.injuries) {
-      relevantData.injuries = compactInjuries();
-    }
-
-    if (requirement === 'lineups' && collectedData.lineups) {
-      relevantData.lineups = compactLineups();
-    }
-
-    if (requirement === 'h2h' && collectedData.h2h) {
-      relevantData.h2h = compactH2H();
-    }
-
-    if (requirement === 'standings' && collectedData.standings) {
-      relevantData.standings = compactStandings();
-    }
-
-    if (requirement === 'predictions' && collectedData.predictions) {
-      // Add API-Football's AI predictions - extremely valuable context!
-      relevantData.predictions = {
-        winner: collectedData.predictions.predictions.winner,
-        winProbabilities: collectedData.predictions.predictions.percent,
-        goals: collectedData.predictions.predictions.goals,
-        advice: collectedData.predictions.predictions.advice,
-        comparison: collectedData.predictions.comparison,
-        homeForm: collectedData.predictions.teams.home.last_5,
-        awayForm: collectedData.predictions.teams.away.last_5,
-      };
-    }
-  }
-
   // Keep the payload small; large JSON dramatically increases latency/cost.
-  const json = JSON.stringify(relevantData);
+  const json = JSON.stringify(buildSignalData(collectedData, dataRequirements));
   return truncateText(json, 14000);
 }
@@ -1,37 +1,42 @@
-import { ChatOpenAI } from '@langchain/openai';
+import { AzureChatOpenAI, ChatOpenAI } from '@langchain/openai';
 
 /**
  * LangChain's ChatOpenAI currently always includes `max_tokens` in the request params.
- * Some newer OpenAI models (e.g. GPT-5 family) reject `max_tokens` and require
+ * Some newer OpenAI models (e.g. GPT-5 family, o-series) reject `max_tokens` and require
  * `max_completion_tokens` instead.
  *
- * This subclass strips `max_tokens` from outbound params and forwards
- * `max_completion_tokens` via modelKwargs.
+ * These subclasses strip `max_tokens` from outbound params and forward
+ * `max_completion_tokens` via modelKwargs. The model factory only uses them
+ * when the provider asks for `max_completion_tokens` (see providers.ts).
  */
-export class ChatOpenAICompat extends ChatOpenAI {
-  invocationParams(
-    ...args: Parameters<ChatOpenAI['invocationParams']>
-  ): ReturnType<ChatOpenAI['invocationParams']> {
-    const params = super.invocationParams(...args);
+function applyMaxCompletionTokens<T>(params: T, modelKwargs: unknown): T {
+  // Remove entirely; some serializers may otherwise send null.
+  delete (params as any).max_tokens;
 
-    const model = String((params as any).model ?? this.modelName ?? '');
-    const isGpt5Family = /^gpt-5/i.test(model);
+  // Forward max_completion_tokens if provided.
+  // modelKwargs is the official escape hatch for unsupported params.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const maxCompletionTokens = (modelKwargs as any)?.max_completion_tokens;
 
-    if (isGpt5Family) {
-      // Remove entirely; some serializers may otherwise send null.
-      delete (params as any).max_tokens;
+  if (typeof maxCompletionTokens === 'number') {
+    (params as any).max_completion_tokens = maxCompletionTokens;
+  }
 
-      // Forward max_completion_tokens if provided.
-      const maxCompletionTokens =
-        // modelKwargs is the official escape hatch for unsupported params.
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (this.modelKwargs as any)?.max_completion_tokens;
+  return params;
+}
 
-      if (typeof maxCompletionTokens === 'number') {
-        (params as any).max_completion_tokens = maxCompletionTokens;
-      }
-    }
+export class ChatOpenAICompat extends ChatOpenAI {
+  invocationParams(
+    ...args: Parameters<ChatOpenAI['invocationParams']>
+  ): ReturnType<ChatOpenAI['invocationParams']> {
+    return applyMaxCompletionTokens(super.invocationParams(...args), this.modelKwargs);
+  }
+}
 
-    return params;
+export class AzureChatOpenAICompat extends AzureChatOpenAI {
+  invocationParams(
+    ...args: Parameters<AzureChatOpenAI['invocationParams']>
+  ): ReturnType<AzureChatOpenAI['invocationParams']> {
+    return applyMaxCompletionTokens(super.invocationParams(...args), this.modelKwargs);
   }
 }
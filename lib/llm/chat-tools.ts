@@ -0,0 +1,271 @@
+import { StructuredToolInterface, tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { APIFootballProxy } from '../api-football/proxy';
+import { apiFootballThrottle } from '../api-football/throttle';
+import { FixtureData, PlayerData, Standing } from '../api-football/types';
+import { randomUUID } from 'crypto';
+import { resolveCitation } from '../report/citations';
+import { sessionManager } from '../session/manager';
+import { Session } from '../session/types';
+import { MAX_PINNED_FACTS } from './chains/chat-memory-chain';
+
+/**
+ * Tools the chat assistant can call: live API-Football lookups (throttled and cached
+ * by the client like any other request), reads of the session's collected data and
+ * the pinned facts of its memory.
+ */
+
+// Tool results are cut to this many characters before they go back to the model
+const MAX_RESULT_CHARS = 6000;
+
+/**
+ * A tool call as shown in the chat (streamed while it runs, kept on the reply)
+ */
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'completed' | 'failed';
+  error?: string;
+}
+
+const TeamSchema = z
+  .string()
+  .describe('"home" or "away" for the teams in this match, or a numeric API-Football team ID');
+
+function formatResult(value: unknown): string {
+  const json = JSON.stringify(value);
+  return json.length > MAX_RESULT_CHARS ? `${json.slice(0, MAX_RESULT_CHARS)}... (truncated)` : json;
+}
+
+function summarizeFixture(match: FixtureData) {
+  return {
+    fixtureId: match.fixture.id,
+    date: match.fixture.date,
+    status: match.fixture.status.short,
+    league: `${match.league.name} ${match.league.season}`,
+    home: match.teams.home.name,
+    away: match.teams.away.name,
+    score: match.goals.home !== null ? `${match.goals.home}-${match.goals.away}` : null,
+  };
+}
+
+function summarizeStanding(row: Standing) {
+  return {
+    rank: row.rank,
+    team: row.team.name,
+    teamId: row.team.id,
+    points: row.points,
+    played: row.all.played,
+    record: `${row.all.win}W ${row.all.draw}D ${row.all.lose}L`,
+    goals: `${row.all.goals.for}:${row.all.goals.against}`,
+    form: row.form,
+  };
+}
+
+function summarizePlayer({ player, statistics }: PlayerData) {
+  return {
+    playerId: player.id,
+    name: player.name,
+    age: player.age,
+    nationality: player.nationality,
+    injured: player.injured,
+    seasons: statistics.map((stats) => ({
+      team: stats.team.name,
+      competition: `${stats.league.name} ${stats.league.season}`,
+      position: stats.games.position,
+      appearances: stats.games.appearences,
+      minutes: stats.games.minutes,
+      goals: stats.goals.total,
+      assists: stats.goals.assists,
+      rating: stats.games.rating,
+      cards: `${stats.cards.yellow ?? 0}Y ${stats.cards.red ?? 0}R`,
+    })),
+  };
+}
+
+/**
+ * Build the chat tools for a session. Calls are aborted with `signal`.
+ */
+export function createChatTools(session: Session, signal?: AbortSignal): StructuredToolInterface[] {
+  const fixture = session.collectedData.fixture;
+  const options = { signal };
+
+  const resolveTeam = (team: string): number => {
+    const key = team.trim().toLowerCase();
+    if ((key === 'home' || key === 'away') && fixture) return fixture.teams[key].id;
+
+    const id = Number.parseInt(key, 10);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Unknown team "${team}": use "home", "away" or a team ID`);
+    }
+    return id;
+  };
+
+  const requireFixture = () => {
+    if (!fixture) throw new Error('Match details are not available for this session');
+    return fixture;
+  };
+
+  // Throttle, call the proxy and unwrap its result
+  const fetchData = async <T>(
+    request: () => Promise<{ success: boolean; data?: T; error?: string }>
+  ): Promise<T> => {
+    await apiFootballThrottle.throttle(signal);
+    const result = await request();
+    if (!result.success || result.data === undefined) {
+      throw new Error(result.error ?? 'API-Football request failed');
+    }
+    return result.data;
+  };
+
+  return [
+    tool(
+      async ({ ref }) => {
+        const value = resolveCitation(session.collectedData, ref);
+        if (value === undefined) throw new Error(`Nothing at "${ref}" in the collected match data`);
+        return formatResult(value);
+      },
+      {
+        name: 'read_match_data',
+        description:
+          'Read the data already collected for this match. ref is a dataset path such as "fixture", ' +
+          '"standings[home]", "h2h[0]", "injuries[away]", "lineups[home].startXI", "statistics" or "predictions.percent".',
+        schema: z.object({ ref: z.string().describe('Path into the collected data') }),
+      }
+    ),
+    tool(
+      async ({ team, last, next }) => {
+        const params = next ? { team: resolveTeam(team), next } : { team: resolveTeam(team), last: last ?? 5 };
+        const matches = await fetchData(() => APIFootballProxy.getFixtures(params, options));
+        return formatResult(matches.map(summarizeFixture));
+      },
+      {
+        name: 'get_team_fixtures',
+        description: "A team's most recent results (last) or upcoming fixtures (next), across all competitions.",
+        schema: z.object({
+          team: TeamSchema,
+          last: z.number().int().min(1).max(20).optional().describe('Number of past matches (default 5)'),
+          next: z.number().int().min(1).max(20).optional().describe('Number of upcoming matches instead'),
+        }),
+      }
+    ),
+    tool(
+      async ({ league, season }) => {
+        const match = requireFixture();
+        const tables = await fetchData(() =>
+          APIFootballProxy.getStandings(
+            { league: league ?? match.league.id, season: season ?? match.league.season },
+            options
+          )
+        );
+        return formatResult(tables.map((table) => table.map(summarizeStanding)));
+      },
+      {
+        name: 'get_standings',
+        description: "League table(s). Defaults to this match's league and season.",
+        schema: z.object({
+          league: z.number().int().optional().describe('API-Football league ID'),
+          season: z.number().int().optional().describe('Season start year, e.g. 2024'),
+        }),
+      }
+    ),
+    tool(
+      async ({ team, season }) => {
+        const match = requireFixture();
+        const injuries = await fetchData(() =>
+          APIFootballProxy.getInjuries({ team: resolveTeam(team), season: season ?? match.league.season }, options)
+        );
+        return formatResult(injuries.map((injury) => ({
+          player: injury.player.name,
+          type: injury.player.type,
+          reason: injury.player.reason,
+          date: injury.fixture.date,
+          league: injury.league.name,
+        })));
+      },
+      {
+        name: 'get_injuries',
+        description: "A team's injuries and suspensions reported for the season (most recent fixtures included).",
+        schema: z.object({
+          team: TeamSchema,
+          season: z.number().int().optional().describe("Season start year (default: this match's season)"),
+        }),
+      }
+    ),
+    tool(
+      async ({ teamA, teamB, last }) => {
+        const matches = await fetchData(() =>
+          APIFootballProxy.getH2H({ h2h: `${resolveTeam(teamA)}-${resolveTeam(teamB)}`, last: last ?? 10 }, options)
+        );
+        return formatResult(matches.map(summarizeFixture));
+      },
+      {
+        name: 'get_head_to_head',
+        description: 'Past meetings between two teams, most recent first.',
+        schema: z.object({
+          teamA: TeamSchema,
+          teamB: TeamSchema,
+          last: z.number().int().min(1).max(20).optional().describe('Number of meetings (default 10)'),
+        }),
+      }
+    ),
+    tool(
+      async ({ name, team, season }) => {
+        const match = requireFixture();
+        const params = {
+          search: name,
+          season: season ?? match.league.season,
+          ...(team ? { team: resolveTeam(team) } : { league: match.league.id }),
+        };
+        const players = await fetchData(() => APIFootballProxy.getPlayers(params, options));
+        if (players.length === 0) throw new Error(`No player matching "${name}"`);
+        return formatResult(players.slice(0, 5).map(summarizePlayer));
+      },
+      {
+        name: 'get_player',
+        description:
+          "Find a player by name and return their season statistics (appearances, goals, assists, rating). " +
+          "Searches this match's league unless a team is given.",
+        schema: z.object({
+          name: z.string().min(4).describe('Player name or surname (at least 4 characters)'),
+          team: TeamSchema.optional(),
+          season: z.number().int().optional().describe("Season start year (default: this match's season)"),
+        }),
+      }
+    ),
+    tool(
+      async ({ fact }) => {
+        const { pinnedFacts } = session.chatMemory;
+        if (pinnedFacts.length >= MAX_PINNED_FACTS) {
+          throw new Error(`Already remembering ${MAX_PINNED_FACTS} facts; forget one first`);
+        }
+        const pinned = { id: randomUUID().slice(0, 8), text: fact.trim(), pinnedAt: Date.now() };
+        sessionManager.updateSession(session.sessionId, { chatMemory: { pinnedFacts: [...pinnedFacts, pinned] } });
+        return `Remembered as ${pinned.id}`;
+      },
+      {
+        name: 'remember_fact',
+        description:
+          'Pin a fact or preference the user asked you to remember for the rest of this conversation ' +
+          '(e.g. "Focus on Arsenal\'s defence", "Prefers short answers").',
+        schema: z.object({ fact: z.string().min(3).max(300).describe('The fact, in one sentence') }),
+      }
+    ),
+    tool(
+      async ({ id }) => {
+        const { pinnedFacts } = session.chatMemory;
+        if (!pinnedFacts.some((fact) => fact.id === id)) throw new Error(`No remembered fact with ID ${id}`);
+        sessionManager.updateSession(session.sessionId, {
+          chatMemory: { pinnedFacts: pinnedFacts.filter((fact) => fact.id !== id) },
+        });
+        return `Forgot ${id}`;
+      },
+      {
+        name: 'forget_fact',
+        description: 'Remove a remembered fact by the ID shown next to it.',
+        schema: z.object({ id: z.string().describe('ID of the remembered fact') }),
+      }
+    ),
+  ];
+}
@@ -0,0 +1,354 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { Runnable } from '@langchain/core/runnables';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { SignalReportSchema, CategoryReportSchema, FinalReportSchema } from './schemas';
+
+/**
+ * Scripted stand-in for ChatOpenAI (LLM_PROVIDER=fake).
+ *
+ * - Structured output (withStructuredOutput → tool call): args are loaded from
+ *   `<LLM_FAKE_RESPONSES_DIR>/<stage>.json` when present, otherwise generated
+ *   from the tool's JSON schema.
+ * - Plain chat: replies with `<dir>/chat.md` or a generated answer (streamed word by word).
+ * - Chat with several tools bound (the chat agent): calls the first tool with args
+ *   generated from its schema, then answers as plain chat once a tool result is in.
+ * - LLM_FAKE_FAILURES injects failures per stage, e.g.
+ *   `signal:1,category:always,final:incomplete`
+ *     always     - every call throws
+ *     <n>        - the first n calls throw, later calls succeed
+ *     incomplete - return the shortest output the schema accepts (exercises the "fill missing" paths)
+ */
+
+export type FakeStage = 'signal' | 'category' | 'final' | 'chat' | 'structured';
+
+type FailureMode = { kind: 'always' } | { kind: 'count'; remaining: number } | { kind: 'incomplete' };
+
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: unknown[];
+}
+
+interface FakeToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: JsonSchema;
+  };
+}
+
+export interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: FakeToolDefinition[];
+}
+
+export interface FakeChatModelParams extends BaseChatModelParams {
+  responsesDir?: string;
+  failures?: string;
+}
+
+const STAGE_SCHEMAS: Partial<Record<FakeStage, z.ZodTypeAny>> = {
+  signal: SignalReportSchema,
+  category: CategoryReportSchema,
+  final: FinalReportSchema,
+};
+
+// Failure counters are process-wide so "first n calls" holds across chain instances
+const failureState = new Map<FakeStage, FailureMode>();
+let failureSpec: string | null = null;
+
+function parseFailures(spec: string): void {
+  if (spec === failureSpec) return;
+  failureSpec = spec;
+  failureState.clear();
+
+  for (const part of spec.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [stage, mode] = part.split(':').map((p) => p.trim());
+    if (!stage || !mode) continue;
+
+    if (mode === 'always' || mode === 'incomplete') {
+      failureState.set(stage as FakeStage, { kind: mode });
+    } else if (/^\d+$/.test(mode)) {
+      failureState.set(stage as FakeStage, { kind: 'count', remaining: Number(mode) });
+    } else {
+      console.warn(`⚠️  Ignoring invalid LLM_FAKE_FAILURES entry "${part}"`);
+    }
+  }
+}
+
+/**
+ * Work out which pipeline stage a structured-output call belongs to
+ */
+function detectStage(parameters: JsonSchema | undefined): FakeStage {
+  const props = parameters?.properties ?? {};
+  if ('quickTalkingPoints' in props) return 'final';
+  if ('talkingPoints' in props) return 'category';
+  if ('insights' in props && 'narrative' in props) return 'signal';
+  return 'structured';
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+}
+
+/**
+ * Build a deterministic value that satisfies a JSON schema
+ */
+function generateFromSchema(schema: JsonSchema, key: string, stage: FakeStage): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schemaType(schema)) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [prop, propSchema] of Object.entries(schema.properties ?? {})) {
+        result[prop] = generateFromSchema(propSchema, prop, stage);
+      }
+      return result;
+    }
+    case 'array': {
+      const min = schema.minItems ?? 0;
+      const max = schema.maxItems ?? Infinity;
+      const count = Math.min(Math.max(min, 3), max);
+      const itemKey = key.replace(/s$/, '');
+      return Array.from({ length: count }, (_, i) =>
+        generateFromSchema(schema.items ?? { type: 'string' }, `${itemKey} ${i + 1}`, stage)
+      );
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? Math.max(min, 1);
+      const value = min + (max - min) * 0.75;
+      return schemaType(schema) === 'integer' ? Math.round(value) : Number(value.toFixed(2));
+    }
+    case 'boolean':
+      return true;
+    default: {
+      if (/emoji/i.test(key) || /emoji/i.test(schema.description ?? '')) {
+        return '⚽';
+      }
+      const text = `[fake ${stage}] ${key}: ${schema.description ?? 'scripted content'}`;
+      // Pad to satisfy minLength and the pipeline's own sanity checks (e.g. narrative > 20 chars)
+      return text.length >= (schema.minLength ?? 0) ? text : text.padEnd(schema.minLength ?? 0, '.');
+    }
+  }
+}
+
+/**
+ * Cut the generated fields down to the least the schema allows (optional fields
+ * dropped, arrays at minItems, strings at minLength, numbers at their minimum),
+ * so the result still parses but fails the pipeline's own completeness checks
+ */
+function makeIncomplete(value: unknown, schema: JsonSchema): unknown {
+  if (Array.isArray(value)) {
+    return value.slice(0, schema.minItems ?? 0).map((item) => makeIncomplete(item, schema.items ?? {}));
+  }
+  if (typeof value === 'string') {
+    if (schema.enum) return value;
+    const min = schema.minLength ?? 0;
+    return value.slice(0, min).padEnd(min, '.');
+  }
+  if (typeof value === 'number') return schema.minimum ?? 0;
+  if (value && typeof value === 'object') {
+    const required = new Set(schema.required ?? []);
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([k]) => required.has(k))
+        .map(([k, v]) => [k, makeIncomplete(v, schema.properties?.[k] ?? {})])
+    );
+  }
+  return value;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+export class FakeChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  private responsesDir?: string;
+
+  constructor(fields: FakeChatModelParams = {}) {
+    super(fields);
+    this.responsesDir = fields.responsesDir ?? process.env.LLM_FAKE_RESPONSES_DIR;
+    parseFailures(fields.failures ?? process.env.LLM_FAKE_FAILURES ?? '');
+  }
+
+  _llmType(): string {
+    return 'fake-scripted';
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<FakeChatModelCallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, FakeChatModelCallOptions> {
+    return this.withConfig({
+      ...kwargs,
+      tools: tools.map((tool) => convertToOpenAITool(tool) as FakeToolDefinition),
+    });
+  }
+
+  /**
+   * Load canned output for a stage, if a file exists for it
+   */
+  private loadCanned(stage: FakeStage, extension: 'json' | 'md'): string | null {
+    if (!this.responsesDir) return null;
+    try {
+      return readFileSync(path.resolve(this.responsesDir, `${stage}.${extension}`), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  private maybeFail(stage: FakeStage): boolean {
+    const mode = failureState.get(stage);
+    if (!mode) return false;
+
+    if (mode.kind === 'always') {
+      throw new Error(`Injected fake LLM failure (${stage})`);
+    }
+    if (mode.kind === 'count' && mode.remaining > 0) {
+      mode.remaining -= 1;
+      throw new Error(`Injected fake LLM failure (${stage}, ${mode.remaining} more to go)`);
+    }
+    return mode.kind === 'incomplete';
+  }
+
+  private structuredArgs(tool: FakeToolDefinition, stage: FakeStage, incomplete: boolean): unknown {
+    const canned = this.loadCanned(stage, 'json');
+    let args: unknown;
+
+    if (canned) {
+      args = JSON.parse(canned);
+      const schema = STAGE_SCHEMAS[stage];
+      const parsed = schema?.safeParse(args);
+      if (parsed && !parsed.success) {
+        throw new Error(`Canned ${stage}.json does not match its schema: ${parsed.error.message}`);
+      }
+    } else {
+      args = generateFromSchema(tool.function.parameters, stage, stage);
+    }
+
+    return incomplete ? makeIncomplete(args, tool.function.parameters) : args;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions']
+  ): Promise<ChatResult> {
+    // The chat agent binds several tools; structured output binds exactly one
+    const agent = (options.tools?.length ?? 0) > 1;
+    const answered = agent && messages.some((message) => message._getType() === 'tool');
+    const tool = answered ? undefined : options.tools?.[0];
+    const stage = tool && !agent ? detectStage(tool.function.parameters) : 'chat';
+    const incomplete = this.maybeFail(stage);
+    const promptText = messages.map(messageText).join('\n');
+
+    let message: AIMessage;
+    let outputText: string;
+
+    if (tool) {
+      const args = agent
+        ? (generateFromSchema(tool.function.parameters, tool.function.name, stage) as Record<string, unknown>)
+        : (this.structuredArgs(tool, stage, incomplete) as Record<string, unknown>);
+      outputText = JSON.stringify(args);
+      message = new AIMessage({
+        content: '',
+        tool_calls: [{ id: `fake_${Date.now()}`, name: tool.function.name, args, type: 'tool_call' }],
+      });
+    } else {
+      const lastQuestion = messages.length > 0 ? messageText(messages[messages.length - 1]) : '';
+      outputText = incomplete
+        ? ''
+        : this.loadCanned('chat', 'md') ??
+          `[fake chat] Scripted answer to: "${lastQuestion.slice(0, 200)}"\n\n- Point one from the report\n- Point two from the match data`;
+      message = new AIMessage({ content: outputText });
+    }
+
+    const inputTokens = estimateTokens(promptText);
+    const outputTokens = estimateTokens(outputText);
+    message.usage_metadata = {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    };
+
+    return {
+      generations: [{ text: outputText, message }],
+      llmOutput: {
+        tokenUsage: {
+          promptTokens: inputTokens,
+          completionTokens: outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+      },
+    };
+  }
+
+  /**
+   * Streams the same result as _generate: plain chat word by word, tool calls in one chunk.
+   * Usage is attached to the last chunk, as the real providers do.
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { generations: [generation] } = await this._generate(messages, options);
+    const message = generation.message as AIMessage;
+
+    if (message.tool_calls?.length) {
+      yield new ChatGenerationChunk({
+        text: generation.text,
+        message: new AIMessageChunk({
+          content: '',
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+            type: 'tool_call_chunk' as const,
+          })),
+          usage_metadata: message.usage_metadata,
+        }),
+      });
+      return;
+    }
+
+    const words = generation.text.match(/\s*\S+\s*/g) ?? [];
+    for (const [idx, word] of words.entries()) {
+      options.signal?.throwIfAborted();
+      const last = idx === words.length - 1;
+      yield new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk({ content: word, ...(last && { usage_metadata: message.usage_metadata }) }),
+      });
+      await runManager?.handleLLMNewToken(word);
+    }
+  }
+}
@@ -1,39 +1,79 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatOpenAICompat } from './chat-openai-compat';
+import { z } from 'zod';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { BaseMessage, HumanMessage, coerceMessageLikeToMessage } from '@langchain/core/messages';
+import { Runnable, RunnableLambda } from '@langchain/core/runnables';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { getLLMProvider, LLMProviderId } from './providers';
 
-export function getChatModel(options?: {
+export interface ChatModelOptions {
+  // Overrides LLM_PROVIDER for this call
+  provider?: LLMProviderId;
+  // Output token limit, sent as max_tokens or max_completion_tokens as the model requires
   maxTokens?: number;
-  maxCompletionTokens?: number;
+  temperature?: number;
   modelName?: string;
   customApiKey?: string;
-}): ChatOpenAI {
-  const apiKey = options?.customApiKey || process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-
-  const modelName = options?.modelName || process.env.OPENAI_MODEL || 'gpt-5-nano';
-
-  // GPT-5 models reject `max_tokens` and require `max_completion_tokens`.
-  // Keep backward compatibility: if callers pass `maxTokens`, treat it as
-  // `maxCompletionTokens` for GPT-5.
-  const isGpt5Family = /^gpt-5/i.test(modelName);
-  const requestedMaxCompletionTokens =
-    options?.maxCompletionTokens ?? options?.maxTokens;
-
-  const ModelClass = isGpt5Family ? ChatOpenAICompat : ChatOpenAI;
-
-  return new ModelClass({
-    openAIApiKey: apiKey,
-    modelName,
-    ...(isGpt5Family
-      ? {
-          modelKwargs: {
-            max_completion_tokens: requestedMaxCompletionTokens,
-          },
-        }
-      : {
-          maxTokens: options?.maxTokens,
-        }),
+}
+
+/**
+ * LLM_PROVIDER selects the chat model backend (see providers.ts):
+ * - openai (default): ChatOpenAI / ChatOpenAICompat
+ * - openai-compatible: any OpenAI-style server via LLM_BASE_URL (llama.cpp, Ollama, vLLM...)
+ * - azure: Azure OpenAI deployment
+ * - anthropic: ChatAnthropic
+ * - fake: scripted FakeChatModel, no API key or network needed
+ */
+export function getChatModel(options: ChatModelOptions = {}): BaseChatModel {
+  return getLLMProvider(options.provider).createModel({
+    modelName: options.modelName,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    apiKey: options.customApiKey,
   });
 }
+
+/**
+ * JSON mode only guarantees valid JSON, so spell out the expected shape
+ */
+function appendJsonSchemaInstructions(input: BaseLanguageModelInput, schema: z.ZodTypeAny): BaseMessage[] {
+  const messages =
+    typeof input === 'string'
+      ? [new HumanMessage(input)]
+      : Array.isArray(input)
+        ? input.map(coerceMessageLikeToMessage)
+        : input.toChatMessages();
+
+  return [
+    ...messages,
+    new HumanMessage(
+      `Respond with a single JSON object matching this JSON schema:\n${JSON.stringify(toJsonSchema(schema))}`
+    ),
+  ];
+}
+
+/**
+ * Chat model returning parsed objects for `schema`, using the provider's
+ * structured output method (tool calling, JSON mode or JSON schema)
+ */
+export function getStructuredChatModel<RunOutput extends Record<string, unknown>>(
+  schema: z.ZodType<RunOutput>,
+  options: ChatModelOptions & { name?: string } = {}
+): Runnable<BaseLanguageModelInput, RunOutput> {
+  const provider = getLLMProvider(options.provider);
+  const model = getChatModel({ ...options, provider: provider.id });
+  const { method, strict } = provider.structuredOutput;
+
+  const structuredModel = model.withStructuredOutput<RunOutput>(schema, {
+    name: options.name,
+    method,
+    includeRaw: false,
+    ...(strict !== undefined ? { strict } : {}),
+  });
+
+  if (method !== 'jsonMode') return structuredModel;
+
+  return RunnableLambda.from((input: BaseLanguageModelInput) => appendJsonSchemaInstructions(input, schema)).pipe(
+    structuredModel
+  );
+}
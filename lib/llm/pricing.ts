@@ -0,0 +1,78 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { readConfigFile } from '../utils/config-file';
+
+/**
+ * Model price table loaded from LLM_PRICES_CONFIG (default: config/model-prices.yaml).
+ * Prices are USD per 1M tokens.
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const PriceTableSchema = z
+  .object({
+    models: z.record(
+      z.string().min(1),
+      z.object({
+        input: z.number().nonnegative(),
+        output: z.number().nonnegative(),
+      }).strict()
+    ),
+  })
+  .strict();
+
+class ModelPricing {
+  private prices: Record<string, ModelPrice> | null = null;
+  private readonly file = path.resolve(process.cwd(), process.env.LLM_PRICES_CONFIG || 'config/model-prices.yaml');
+
+  private load(): Record<string, ModelPrice> {
+    if (this.prices) return this.prices;
+
+    if (!existsSync(this.file)) {
+      console.warn(`⚠️  No model price table at ${this.file}, costs will be reported as unpriced`);
+      this.prices = {};
+      return this.prices;
+    }
+
+    this.prices = readConfigFile(this.file, PriceTableSchema, 'model price table').models;
+    console.log(`✓ Loaded prices for ${Object.keys(this.prices).length} model(s) from ${this.file}`);
+    return this.prices;
+  }
+
+  /**
+   * Price for a model: exact name first, then the longest key it starts with
+   * (so dated snapshots inherit their base model's price)
+   */
+  getPrice(model: string): ModelPrice | null {
+    const prices = this.load();
+    if (prices[model]) return prices[model];
+
+    const prefix = Object.keys(prices)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : null;
+  }
+
+  /**
+   * Estimated cost in USD, or null if the model has no price
+   */
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = this.getPrice(model);
+    if (!price) return null;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Drop the cached table so the next lookup re-reads the file
+   */
+  reload(): void {
+    this.prices = null;
+  }
+}
+
+// Singleton instance
+export const modelPricing = new ModelPricing();
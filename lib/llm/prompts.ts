@@ -1,10 +1,22 @@
 import { PromptTemplate } from '@langchain/core/prompts';
 
+/**
+ * Part of every LLM cache key (see response-cache.ts).
+ * Bump a stage's version whenever its template changes.
+ */
+export const PROMPT_VERSIONS = {
+  signal: '3',
+  category: '3',
+  final: '3',
+} as const;
+
 /**
  * Signal-level analysis prompt
+ * Audience variables come from getAudiencePromptVariables (lib/report/audiences.ts),
+ * {language} from getLocalePromptVariables (lib/report/locales.ts)
  */
 export const signalPromptTemplate = PromptTemplate.fromTemplate(`
-You are a professional football (soccer) analyst creating a pre-match report section.
+You are a professional football (soccer) analyst creating a pre-match report section for {audience}.
 
 **Context:**
 Match: {homeTeam} vs {awayTeam}
@@ -26,32 +38,44 @@ Description: {signalDescription}
 USE THIS DATA to enhance your analysis with expert predictions!
 
 **Instructions:**
-1. Extract 3-5 key insights from the data
-2. Write a cohesive narrative paragraph (100-150 words) connecting the insights
+1. Extract 3-5 key insights from the data, each citing the data it came from (see Sources below)
+2. Write a cohesive narrative paragraph ({narrativeLength} words) connecting the insights
 3. Choose an appropriate emoji that represents this analysis
 4. Assess your confidence level (0-1) based on data quality and completeness
 
 **Style Guidelines:**
-- Professional yet engaging tone
+- {tone} tone
 - Use bullet points for insights
 - Include specific statistics when available
-- Focus on what matters for commentators and analysts
-- Write in English
+- Focus on what matters to this audience: {audienceFocus}
+- Write in {language}
+
+**Audience-specific instructions:**
+{audienceInstructions}
+
+**Sources:**
+List the data behind each insight as paths into the Available Data JSON: the top-level key, then
+property names, with [home]/[away] to pick a team's row and [0], [1]... to pick a list item.
+Examples: "standings[home].form", "standings[away].points", "predictions.percent", "h2h[0].goals", "injuries[home]".
 
 **CRITICAL OUTPUT REQUIREMENTS:**
 You MUST return a complete JSON object with ALL FOUR fields. NO EXCEPTIONS.
 
 REQUIRED FORMAT (copy this structure exactly):
 {{
-  "insights": ["insight 1", "insight 2", "insight 3"],
-  "narrative": "Your 100-150 word paragraph narrative connecting the insights. This field is MANDATORY and must be a complete paragraph, not empty.",
+  "insights": [
+    {{ "text": "insight 1", "sources": ["standings[home].form"] }},
+    {{ "text": "insight 2", "sources": ["predictions.percent"] }},
+    {{ "text": "insight 3", "sources": ["h2h[0].goals", "h2h[1].goals"] }}
+  ],
+  "narrative": "Your {narrativeLength} word paragraph narrative connecting the insights. This field is MANDATORY and must be a complete paragraph, not empty.",
   "emoji": "⚽",
   "confidence": 0.85
 }}
 
 ⚠️ VALIDATION RULES:
-- "insights": Array with 3-5 strings (REQUIRED)
-- "narrative": String with 100-150 words (REQUIRED, cannot be empty)
+- "insights": Array with 3-5 objects, each with "text" and "sources" (REQUIRED)
+- "narrative": String with {narrativeLength} words (REQUIRED, cannot be empty)
 - "emoji": Single emoji character (REQUIRED)
 - "confidence": Number between 0 and 1 (REQUIRED)
 
@@ -76,16 +100,23 @@ Category: {categoryName} {categoryEmoji}
 1. Merge the insights from all signals into organized sections
 2. Remove redundancies and contradictions
 3. Create a clear narrative flow
-4. Generate 3-5 key talking points for commentators
+4. Generate {categoryTalkingPoints} key talking points for the audience
 5. Maintain specific data points and statistics
 6. Use emojis, bullet points, and clear section headers
+7. Give each section the sources of the insights it uses, copied exactly from the signal reports
 
 **Style Guidelines:**
 - GPT-style formatting (bullets, headers, separators)
-- Professional yet accessible language
-- Focus on actionable insights for live commentary
+- {tone} language
+- Focus on what matters to this audience: {audienceFocus}
 - Highlight surprising or critical information
-- Write in English
+- Write in {language}
+
+**Target Audience:**
+{audience}
+
+**Audience-specific instructions:**
+{audienceInstructions}
 
 Create a comprehensive category report.
 `);
@@ -107,21 +138,26 @@ You are a senior football analyst creating the final comprehensive pre-match rep
 1. Synthesize all category reports into a single, cohesive match report
 2. Create a compelling title and subtitle
 3. Organize sections with clear hierarchy and flow
-4. Generate 5-10 quick talking points (the absolute must-knows for commentators)
+4. Generate {finalTalkingPoints} quick talking points (the absolute must-knows for the audience)
 5. Remove any redundancies across categories
 6. Ensure smooth transitions between sections
 7. Maintain all critical insights and data
+8. Give each section the sources of the category sections it draws on, copied exactly
 
 **Format Requirements:**
 - Use emojis for visual appeal
 - Bullet points for easy scanning
 - Section dividers (---)
-- Professional GPT-style formatting
+- GPT-style formatting with a {tone} voice
 - Clear hierarchy: Title → Subtitle → Sections → Talking Points
-- Write in English
+- Write in {language}
 
 **Target Audience:**
-Live commentators, analysts, and streamers who need quick, actionable insights before the match.
+{audience}
+Focus on: {audienceFocus}
+
+**Audience-specific instructions:**
+{audienceInstructions}
 
 Create the final comprehensive match report.
 `);
@@ -0,0 +1,245 @@
+import { AzureChatOpenAI, ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AzureChatOpenAICompat, ChatOpenAICompat } from './chat-openai-compat';
+import { FakeChatModel } from './fake-chat-model';
+
+/**
+ * Chat model providers. LLM_PROVIDER picks the default; callers may override it
+ * per call (see getChatModel in model-factory.ts).
+ *
+ * Providers differ in two ways the pipeline cares about:
+ * - which request parameter carries the output token limit
+ * - how structured output (signal/category/final JSON) is requested
+ */
+
+export type LLMProviderId = 'openai' | 'openai-compatible' | 'azure' | 'anthropic' | 'fake';
+
+export type StructuredOutputMethod = 'functionCalling' | 'jsonMode' | 'jsonSchema';
+
+export type TokenLimitParam = 'max_tokens' | 'max_completion_tokens';
+
+export interface ProviderModelOptions {
+  modelName?: string;
+  maxTokens?: number;
+  temperature?: number;
+  apiKey?: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  structuredOutput: {
+    method: StructuredOutputMethod;
+    // Only sent when set (not every OpenAI-compatible server accepts it)
+    strict?: boolean;
+  };
+  // Model used when the caller doesn't name one
+  getDefaultModel(): string;
+  createModel(options: ProviderModelOptions): BaseChatModel;
+  // Check a user's own key (providers that accept them, see lib/llm/user-keys.ts).
+  // Resolves false when the provider rejects the key; throws when it can't tell.
+  validateApiKey?(apiKey: string, signal: AbortSignal): Promise<boolean>;
+}
+
+const STRUCTURED_OUTPUT_METHODS: StructuredOutputMethod[] = ['functionCalling', 'jsonMode', 'jsonSchema'];
+const TOKEN_LIMIT_PARAMS: TokenLimitParam[] = ['max_tokens', 'max_completion_tokens'];
+
+/**
+ * Read an enum-like env var, failing loudly on typos
+ */
+function readEnvChoice<T extends string>(name: string, choices: readonly T[], fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`${name} must be one of: ${choices.join(', ')} (got "${value}")`);
+  }
+  return value as T;
+}
+
+function requireEnv(name: string, provider: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is required for LLM_PROVIDER=${provider}`);
+  }
+  return value;
+}
+
+/**
+ * GPT-5 and o-series reasoning models only accept `max_completion_tokens`
+ */
+function inferOpenAITokenParam(modelName: string): TokenLimitParam {
+  return /^(gpt-5|o\d)/i.test(modelName) ? 'max_completion_tokens' : 'max_tokens';
+}
+
+/**
+ * Constructor fields for the token limit, using the parameter the model accepts
+ */
+function openAITokenLimit(param: TokenLimitParam, maxTokens: number | undefined) {
+  return param === 'max_completion_tokens'
+    ? { modelKwargs: { max_completion_tokens: maxTokens } }
+    : { maxTokens };
+}
+
+/**
+ * Call an endpoint that requires a valid key: 2xx means accepted, 401/403 rejected
+ */
+async function checkApiKey(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  provider: string
+): Promise<boolean> {
+  const response = await fetch(url, { headers, signal });
+  if (response.ok) return true;
+  if (response.status === 401 || response.status === 403) return false;
+  throw new Error(`${provider} returned ${response.status} while checking the key`);
+}
+
+const openAIProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  structuredOutput: { method: 'functionCalling', strict: false },
+  getDefaultModel() {
+    return process.env.OPENAI_MODEL || 'gpt-5-nano';
+  },
+  createModel({ modelName, maxTokens, temperature, apiKey }) {
+    const key = apiKey || process.env.OPENAI_API_KEY;
+    if (!key) {
+      throw new Error('OPENAI_API_KEY environment variable is not set');
+    }
+
+    const model = modelName || this.getDefaultModel();
+    const tokenParam = inferOpenAITokenParam(model);
+    const ModelClass = tokenParam === 'max_completion_tokens' ? ChatOpenAICompat : ChatOpenAI;
+
+    return new ModelClass({
+      openAIApiKey: key,
+      modelName: model,
+      temperature,
+      ...openAITokenLimit(tokenParam, maxTokens),
+    });
+  },
+  validateApiKey(apiKey, signal) {
+    // The OpenAI client reads OPENAI_BASE_URL too, so keys are checked where they'll be used
+    const baseURL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    return checkApiKey(`${baseURL}/models`, { Authorization: `Bearer ${apiKey}` }, signal, this.name);
+  },
+};
+
+// Self-hosted servers (llama.cpp, Ollama, vLLM, LM Studio...) vary in what they support
+const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible server',
+  // Read lazily so a typo only fails when this provider is actually used
+  get structuredOutput() {
+    return { method: readEnvChoice('LLM_STRUCTURED_OUTPUT', STRUCTURED_OUTPUT_METHODS, 'functionCalling') };
+  },
+  getDefaultModel() {
+    return requireEnv('LLM_MODEL', 'openai-compatible');
+  },
+  createModel({ modelName, maxTokens, temperature, apiKey }) {
+    const baseURL = requireEnv('LLM_BASE_URL', 'openai-compatible');
+    const model = modelName || this.getDefaultModel();
+    const tokenParam = readEnvChoice('LLM_TOKEN_PARAM', TOKEN_LIMIT_PARAMS, 'max_tokens');
+    const ModelClass = tokenParam === 'max_completion_tokens' ? ChatOpenAICompat : ChatOpenAI;
+
+    return new ModelClass({
+      // Local servers usually ignore the key, but the client refuses to start without one
+      openAIApiKey: apiKey || process.env.LLM_API_KEY || 'not-needed',
+      modelName: model,
+      temperature,
+      configuration: { baseURL },
+      ...openAITokenLimit(tokenParam, maxTokens),
+    });
+  },
+};
+
+const azureProvider: LLMProvider = {
+  id: 'azure',
+  name: 'Azure OpenAI',
+  structuredOutput: { method: 'functionCalling', strict: false },
+  // On Azure the "model" is a deployment name
+  getDefaultModel() {
+    return requireEnv('AZURE_OPENAI_DEPLOYMENT', 'azure');
+  },
+  createModel({ modelName, maxTokens, temperature, apiKey }) {
+    const key = apiKey || requireEnv('AZURE_OPENAI_API_KEY', 'azure');
+    const endpoint = requireEnv('AZURE_OPENAI_ENDPOINT', 'azure');
+    const deployment = modelName || this.getDefaultModel();
+    // Deployment names don't always reveal the model, so allow an explicit override
+    const tokenParam = readEnvChoice('AZURE_OPENAI_TOKEN_PARAM', TOKEN_LIMIT_PARAMS, inferOpenAITokenParam(deployment));
+    const ModelClass = tokenParam === 'max_completion_tokens' ? AzureChatOpenAICompat : AzureChatOpenAI;
+
+    return new ModelClass({
+      azureOpenAIApiKey: key,
+      azureOpenAIEndpoint: endpoint,
+      azureOpenAIApiDeploymentName: deployment,
+      azureOpenAIApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      temperature,
+      ...openAITokenLimit(tokenParam, maxTokens),
+    });
+  },
+};
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  // Anthropic has no JSON mode; tool use is the structured output path
+  structuredOutput: { method: 'functionCalling' },
+  getDefaultModel() {
+    return process.env.ANTHROPIC_MODEL || 'claude-haiku-4-5';
+  },
+  createModel({ modelName, maxTokens, temperature, apiKey }) {
+    const key = apiKey || requireEnv('ANTHROPIC_API_KEY', 'anthropic');
+
+    return new ChatAnthropic({
+      apiKey: key,
+      model: modelName || this.getDefaultModel(),
+      temperature,
+      // max_tokens is mandatory on the Messages API
+      maxTokens: maxTokens ?? 4096,
+    });
+  },
+};
+
+const fakeProvider: LLMProvider = {
+  id: 'fake',
+  name: 'Scripted fake model',
+  structuredOutput: { method: 'functionCalling' },
+  getDefaultModel() {
+    return 'fake';
+  },
+  createModel() {
+    return new FakeChatModel();
+  },
+};
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: openAIProvider,
+  'openai-compatible': openAICompatibleProvider,
+  azure: azureProvider,
+  anthropic: anthropicProvider,
+  fake: fakeProvider,
+};
+
+// Provider of the API keys users can bring (see lib/llm/user-keys.ts)
+export const USER_API_KEY_PROVIDER: LLMProviderId = 'openai';
+
+export function isLLMProviderId(value: string): value is LLMProviderId {
+  return Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+}
+
+/**
+ * Get a provider by ID (LLM_PROVIDER, default openai, if omitted)
+ */
+export function getLLMProvider(id?: LLMProviderId): LLMProvider {
+  const providerId = id ?? (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  if (!isLLMProviderId(providerId)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${providerId}" (expected one of: ${Object.keys(LLM_PROVIDERS).join(', ')})`
+    );
+  }
+  return LLM_PROVIDERS[providerId];
+}
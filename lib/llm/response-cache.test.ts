@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { llmResponseCache, ResponseCacheKey } from './response-cache';
+
+const HOUR = 60 * 60 * 1000;
+
+const key: ResponseCacheKey = {
+  stage: 'signal',
+  route: { provider: 'openai', model: 'gpt-5-nano', maxTokens: undefined, temperature: undefined },
+  promptVersion: '3',
+  inputs: { homeTeam: 'Chelsea', awayTeam: 'Arsenal', signalName: 'Recent form', collectedData: '{"standings":[]}' },
+};
+
+const result = { narrative: 'Chelsea are unbeaten in five.' };
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await llmResponseCache.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('llmResponseCache', () => {
+  it('serves a stored result for identical stage, route, prompt version and inputs', async () => {
+    expect(await llmResponseCache.get(key)).toBeNull();
+
+    await llmResponseCache.set(key, result);
+    expect(await llmResponseCache.get({ ...key, inputs: { ...key.inputs } })).toEqual(result);
+  });
+
+  it.each<[string, ResponseCacheKey]>([
+    ['stage', { ...key, stage: 'category' }],
+    ['model', { ...key, route: { ...key.route, model: 'gpt-5-mini' } }],
+    ['provider', { ...key, route: { ...key.route, provider: 'anthropic' } }],
+    ['token cap', { ...key, route: { ...key.route, maxTokens: 500 } }],
+    ['prompt version', { ...key, promptVersion: '4' }],
+    ['collected data', { ...key, inputs: { ...key.inputs, collectedData: '{"standings":[1]}' } }],
+    ['an extra input', { ...key, inputs: { ...key.inputs, audience: 'betting' } }],
+  ])('misses when the %s changes', async (_, changed) => {
+    await llmResponseCache.set(key, result);
+    expect(await llmResponseCache.get(changed)).toBeNull();
+  });
+
+  it('skips the lookup on bypass but still stores the fresh result', async () => {
+    await llmResponseCache.set(key, result);
+    expect(await llmResponseCache.get(key, { bypass: true })).toBeNull();
+
+    await llmResponseCache.set(key, { narrative: 'Regenerated.' });
+    expect(await llmResponseCache.get(key)).toEqual({ narrative: 'Regenerated.' });
+  });
+
+  it('expires results after the TTL', async () => {
+    vi.setSystemTime(new Date('2024-11-10T12:00:00Z'));
+    await llmResponseCache.set(key, result);
+
+    vi.advanceTimersByTime(23 * HOUR);
+    expect(await llmResponseCache.get(key)).toEqual(result);
+
+    vi.advanceTimersByTime(2 * HOUR);
+    expect(await llmResponseCache.get(key)).toBeNull();
+    expect((await llmResponseCache.getStats()).size).toBe(0);
+  });
+
+  it('reports each lookup and counts hits and misses', async () => {
+    const before = await llmResponseCache.getStats();
+    const lookups: boolean[] = [];
+    const onLookup = (hit: boolean) => lookups.push(hit);
+
+    await llmResponseCache.get(key, { onLookup });
+    await llmResponseCache.set(key, result);
+    await llmResponseCache.get(key, { onLookup });
+
+    const after = await llmResponseCache.getStats();
+    expect(lookups).toEqual([false, true]);
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.misses - before.misses).toBe(1);
+  });
+});
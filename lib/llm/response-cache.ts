@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { CacheStore, createCacheStore, defaultCacheDir } from '../api-football/cache-store';
+import { ModelStage, ResolvedStageRoute } from './routing';
+
+/**
+ * Content-addressed cache for structured LLM results (signal, category, final).
+ * Keys hash the stage's model route, the prompt template version and the exact
+ * prompt inputs, so unchanged data never pays for the same call twice.
+ *
+ * LLM_CACHE_STORE: memory (default) | file | off
+ */
+
+export interface ResponseCacheKey {
+  stage: ModelStage;
+  route: ResolvedStageRoute;
+  promptVersion: string;
+  // Every template variable, including the formatted data strings
+  inputs: Record<string, unknown>;
+}
+
+export interface ResponseCacheOptions {
+  // Skip the lookup but still store the fresh result (section regeneration)
+  bypass?: boolean;
+  onLookup?: (hit: boolean) => void;
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+function createLLMCacheStore(): CacheStore | null {
+  const kind = process.env.LLM_CACHE_STORE || 'memory';
+  if (kind === 'off') return null;
+  return createCacheStore(kind, process.env.LLM_CACHE_DIR || defaultCacheDir('llm'));
+}
+
+class LLMResponseCache {
+  private store: CacheStore | null;
+  private ttl: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: CacheStore | null = createLLMCacheStore()) {
+    this.store = store;
+    const ttlMs = Number.parseInt(process.env.LLM_CACHE_TTL_MS || '', 10);
+    this.ttl = Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : DEFAULT_TTL;
+  }
+
+  private buildKey(key: ResponseCacheKey): string {
+    const { stage, route, promptVersion, inputs } = key;
+    const hash = createHash('sha256')
+      .update(JSON.stringify({ route, promptVersion, inputs }))
+      .digest('hex');
+    return `llm:${stage}:${hash}`;
+  }
+
+  /**
+   * Cached result for these inputs, or null on a miss
+   */
+  async get<T>(key: ResponseCacheKey, options: ResponseCacheOptions = {}): Promise<T | null> {
+    if (!this.store || options.bypass) return null;
+
+    const cacheKey = this.buildKey(key);
+    let data: T | null = null;
+    try {
+      const entry = await this.store.get<T>(cacheKey);
+      if (entry && Date.now() <= entry.expiresAt) {
+        data = entry.data;
+      } else if (entry) {
+        await this.store.delete(cacheKey);
+      }
+    } catch (error) {
+      // A broken cache must never fail generation
+      console.warn(`⚠️  LLM cache read failed for ${key.stage}:`, error);
+    }
+
+    if (data !== null) {
+      this.hits++;
+      console.log(`✓ LLM cache hit (${key.stage})`);
+    } else {
+      this.misses++;
+    }
+    options.onLookup?.(data !== null);
+    return data;
+  }
+
+  /**
+   * Store a result (only call with complete, validated output)
+   */
+  async set<T>(key: ResponseCacheKey, data: T): Promise<void> {
+    if (!this.store) return;
+
+    const expiresAt = Date.now() + this.ttl;
+    try {
+      await this.store.set(this.buildKey(key), { data, expiresAt, staleUntil: expiresAt });
+    } catch (error) {
+      console.warn(`⚠️  LLM cache write failed for ${key.stage}:`, error);
+    }
+  }
+
+  /**
+   * Clear all cached results
+   */
+  async clear(): Promise<void> {
+    await this.store?.clear();
+  }
+
+  /**
+   * Remove expired entries
+   */
+  async cleanup(): Promise<void> {
+    if (!this.store) return;
+
+    const now = Date.now();
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key);
+      if (entry && now > entry.expiresAt) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get cache statistics
+   */
+  async getStats() {
+    return {
+      store: this.store?.name ?? 'off',
+      size: this.store ? (await this.store.keys()).length : 0,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+// Singleton instance
+export const llmResponseCache = new LLMResponseCache();
+
+// Auto cleanup every 30 minutes
+setInterval(() => {
+  llmResponseCache.cleanup().catch((error) => {
+    console.warn('⚠️  LLM cache cleanup failed:', error);
+  });
+}, 30 * 60 * 1000);
@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRouteModelOptions } from './routing';
+
+let dir: string;
+
+/**
+ * A fresh routing instance reading the given YAML (null: no file at all)
+ */
+async function loadRouting(yaml: string | null) {
+  const file = path.join(dir, 'llm-routing.yaml');
+  if (yaml !== null) writeFileSync(file, yaml);
+  vi.stubEnv('LLM_ROUTING_CONFIG', file);
+  vi.resetModules();
+  const { modelRouting } = await import('./routing');
+  return modelRouting;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), 'llm-routing-'));
+  vi.stubEnv('LLM_PROVIDER', 'fake');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('modelRouting', () => {
+  it('layers stage settings over the default entry over the built-in token caps', async () => {
+    const routing = await loadRouting(`
+default:
+  provider: anthropic
+  model: claude-haiku-4-5
+  temperature: 0.4
+stages:
+  final:
+    maxTokens: 2000
+  chat:
+    provider: openai
+    model: gpt-5-mini
+`);
+
+    expect(routing.getRoute('signal')).toEqual({
+      provider: 'anthropic',
+      model: 'claude-haiku-4-5',
+      maxTokens: undefined,
+      temperature: 0.4,
+    });
+    expect(routing.getRoute('final')).toMatchObject({ provider: 'anthropic', maxTokens: 2000 });
+    expect(routing.getRoute('chat')).toEqual({
+      provider: 'openai',
+      model: 'gpt-5-mini',
+      maxTokens: 900,
+      temperature: 0.4,
+    });
+  });
+
+  it("falls back to LLM_PROVIDER and the provider's default model", async () => {
+    const routing = await loadRouting('stages:\n  category:\n    temperature: 0.2\n');
+
+    expect(routing.getRoute('category')).toEqual({ provider: 'fake', model: 'fake', maxTokens: undefined, temperature: 0.2 });
+    expect(routing.getRoute('final')).toMatchObject({ provider: 'fake', maxTokens: 3000 });
+  });
+
+  it('uses the built-in routes without a file, or with an all-comment file', async () => {
+    for (const yaml of [null, '# default:\n#   provider: openai\n']) {
+      const routing = await loadRouting(yaml);
+      expect(routing.getRoute('chat')).toEqual({ provider: 'fake', model: 'fake', maxTokens: 900, temperature: undefined });
+    }
+  });
+
+  it('rejects unknown providers, stages and fields', async () => {
+    await expect(async () => (await loadRouting('default:\n  provider: mistral\n')).getRoute('signal')).rejects.toThrow(
+      /default\.provider/
+    );
+    await expect(async () => (await loadRouting('stages:\n  summary: {}\n')).getRoute('signal')).rejects.toThrow(
+      /Invalid model routing config/
+    );
+    await expect(async () => (await loadRouting('stages:\n  chat:\n    maxTokens: -5\n')).getRoute('chat')).rejects.toThrow(
+      /stages\.chat\.maxTokens/
+    );
+  });
+
+  it('re-reads the file on reload', async () => {
+    const routing = await loadRouting('stages:\n  signal:\n    maxTokens: 500\n');
+    expect(routing.getRoute('signal').maxTokens).toBe(500);
+
+    writeFileSync(path.join(dir, 'llm-routing.yaml'), 'stages:\n  signal:\n    maxTokens: 700\n');
+    expect(routing.getRoute('signal').maxTokens).toBe(500);
+    routing.reload();
+    expect(routing.getRoute('signal').maxTokens).toBe(700);
+  });
+});
+
+describe('getRouteModelOptions', () => {
+  it("passes a user's key only to routes on its provider", () => {
+    const openai = { provider: 'openai' as const, model: 'gpt-5-mini', maxTokens: 900 };
+    const anthropic = { provider: 'anthropic' as const, model: 'claude-haiku-4-5' };
+
+    expect(getRouteModelOptions(openai, 'sk-user')).toEqual({
+      provider: 'openai',
+      modelName: 'gpt-5-mini',
+      maxTokens: 900,
+      temperature: undefined,
+      customApiKey: 'sk-user',
+    });
+    expect(getRouteModelOptions(anthropic, 'sk-user')).not.toHaveProperty('customApiKey');
+    expect(getRouteModelOptions(openai)).not.toHaveProperty('customApiKey');
+  });
+});
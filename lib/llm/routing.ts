@@ -0,0 +1,125 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { readConfigFile } from '../utils/config-file';
+import { ChatModelOptions } from './model-factory';
+import { getLLMProvider, LLM_PROVIDERS, LLMProviderId, USER_API_KEY_PROVIDER } from './providers';
+
+/**
+ * Per-stage model routing loaded from LLM_ROUTING_CONFIG (default: config/llm-routing.yaml).
+ * Each stage may set a provider, model, token cap and temperature; unset fields fall
+ * back to the file's `default` entry, then to LLM_PROVIDER and the provider's default model.
+ */
+
+export type ModelStage = 'signal' | 'category' | 'final' | 'chat';
+
+export const MODEL_STAGES: ModelStage[] = ['signal', 'category', 'final', 'chat'];
+
+/**
+ * The model a stage actually runs with (recorded on the session for auditing)
+ */
+export interface ResolvedStageRoute {
+  provider: LLMProviderId;
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+const StageRouteSchema = z
+  .object({
+    provider: z.enum(Object.keys(LLM_PROVIDERS) as [LLMProviderId, ...LLMProviderId[]]).optional(),
+    model: z.string().min(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+  })
+  .strict();
+
+type StageRoute = z.infer<typeof StageRouteSchema>;
+
+const RoutingConfigSchema = z
+  .object({
+    default: StageRouteSchema.optional(),
+    stages: z
+      .object({
+        signal: StageRouteSchema.optional(),
+        category: StageRouteSchema.optional(),
+        final: StageRouteSchema.optional(),
+        chat: StageRouteSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
+
+// Token caps the chains used before routing was configurable
+const BUILT_IN_ROUTES: Record<ModelStage, StageRoute> = {
+  signal: {},
+  category: {},
+  final: { maxTokens: 3000 },
+  chat: { maxTokens: 900 },
+};
+
+class ModelRouting {
+  private config: RoutingConfig | null = null;
+  private readonly file = path.resolve(process.cwd(), process.env.LLM_ROUTING_CONFIG || 'config/llm-routing.yaml');
+
+  private load(): RoutingConfig {
+    if (this.config) return this.config;
+
+    if (!existsSync(this.file)) {
+      this.config = {};
+      return this.config;
+    }
+
+    // An empty (all-commented) file parses as null
+    this.config = readConfigFile(this.file, RoutingConfigSchema.nullable(), 'model routing config') ?? {};
+    console.log(`✓ Loaded model routing from ${this.file}`);
+    return this.config;
+  }
+
+  /**
+   * Resolve the provider, model and limits for a stage
+   */
+  getRoute(stage: ModelStage): ResolvedStageRoute {
+    const config = this.load();
+    const route: StageRoute = {
+      ...BUILT_IN_ROUTES[stage],
+      ...config.default,
+      ...config.stages?.[stage],
+    };
+
+    const provider = getLLMProvider(route.provider);
+    return {
+      provider: provider.id,
+      model: route.model ?? provider.getDefaultModel(),
+      maxTokens: route.maxTokens,
+      temperature: route.temperature,
+    };
+  }
+
+  /**
+   * Drop the cached config so the next lookup re-reads the file
+   */
+  reload(): void {
+    this.config = null;
+  }
+}
+
+/**
+ * getChatModel/getStructuredChatModel options for a resolved route. A user's own
+ * API key replaces the server key on routes to its provider; other routes ignore it.
+ */
+export function getRouteModelOptions(route: ResolvedStageRoute, apiKey?: string): ChatModelOptions {
+  return {
+    provider: route.provider,
+    modelName: route.model,
+    maxTokens: route.maxTokens,
+    temperature: route.temperature,
+    ...(apiKey && route.provider === USER_API_KEY_PROVIDER && { customApiKey: apiKey }),
+  };
+}
+
+// Singleton instance
+export const modelRouting = new ModelRouting();
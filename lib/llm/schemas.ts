@@ -1,10 +1,22 @@
 import { z } from 'zod';
 
+/**
+ * References into the collected data backing a claim (see lib/report/citations.ts)
+ */
+const SourcesSchema = z
+  .array(z.string())
+  .describe('Paths into the data this is based on, e.g. "standings[home].form", "predictions.percent", "h2h[0].goals"');
+
 /**
  * Schema for signal-level report output
  */
 export const SignalReportSchema = z.object({
-  insights: z.array(z.string()).min(1).describe('Key insights extracted from the data (3-5 bullet points)'),
+  insights: z.array(
+    z.object({
+      text: z.string().min(1).describe('The insight'),
+      sources: SourcesSchema,
+    })
+  ).min(1).describe('Key insights extracted from the data (3-5 bullet points), each with its sources'),
   narrative: z.string().min(10).describe('A cohesive narrative paragraph connecting the insights (100-150 words)'),
   emoji: z.string().min(1).describe('A single emoji that represents this signal'),
   confidence: z.number().min(0).max(1).describe('Confidence level in the analysis (0-1)'),
@@ -22,6 +34,7 @@ export const CategoryReportSchema = z.object({
       title: z.string().describe('Section title'),
       content: z.string().describe('Section content with bullet points and formatting'),
       emoji: z.string().describe('Section emoji'),
+      sources: SourcesSchema,
     })
   ).describe('Sections within this category'),
   talkingPoints: z.array(z.string()).describe('Key talking points for commentators (3-5 items)'),
@@ -40,6 +53,7 @@ export const FinalReportSchema = z.object({
       title: z.string(),
       content: z.string(),
       emoji: z.string(),
+      sources: SourcesSchema,
     })
   ).describe('All report sections organized and formatted'),
   quickTalkingPoints: z.array(z.string()).describe('Top 5-10 quick talking points for the match'),
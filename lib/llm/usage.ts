@@ -0,0 +1,185 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { AIMessage } from '@langchain/core/messages';
+import { LLMResult } from '@langchain/core/outputs';
+import { sessionManager } from '../session/manager';
+import { modelPricing } from './pricing';
+import { ModelStage, ResolvedStageRoute } from './routing';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type UsageCallback = (usage: TokenUsage) => void;
+
+/**
+ * One LLM call, as stored on the session
+ */
+export interface LLMCallUsage extends TokenUsage {
+  stage: ModelStage;
+  provider: ResolvedStageRoute['provider'];
+  model: string;
+  // null when the model is missing from the price table
+  costUsd: number | null;
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Priced calls only (see unpricedModels)
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byStage: Partial<Record<ModelStage, UsageTotals>>;
+  unpricedModels: string[];
+}
+
+/**
+ * Token counts from a model response. Prefers the message's usage_metadata
+ * (set by every LangChain chat model), falling back to llmOutput.tokenUsage.
+ */
+export function extractTokenUsage(output: LLMResult): TokenUsage {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  let found = false;
+
+  for (const generation of output.generations.flat()) {
+    // Chat generations carry the message (AIMessage or AIMessageChunk)
+    const metadata = 'message' in generation ? (generation.message as AIMessage).usage_metadata : undefined;
+    if (metadata) {
+      usage.promptTokens += metadata.input_tokens;
+      usage.completionTokens += metadata.output_tokens;
+      found = true;
+    }
+  }
+
+  if (!found && output.llmOutput?.tokenUsage) {
+    usage.promptTokens = output.llmOutput.tokenUsage.promptTokens ?? 0;
+    usage.completionTokens = output.llmOutput.tokenUsage.completionTokens ?? 0;
+  }
+
+  return usage;
+}
+
+/**
+ * Reports the token usage of every LLM call made while attached (retries included)
+ */
+class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'usage_callback_handler';
+
+  constructor(private readonly onUsage: UsageCallback) {
+    super();
+  }
+
+  handleLLMEnd(output: LLMResult): void {
+    this.onUsage(extractTokenUsage(output));
+  }
+}
+
+/**
+ * `callbacks` for chain.invoke (none if nobody is listening)
+ */
+export function usageCallbacks(onUsage?: UsageCallback): BaseCallbackHandler[] | undefined {
+  return onUsage ? [new UsageCallbackHandler(onUsage)] : undefined;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, call: LLMCallUsage): void {
+  totals.calls += 1;
+  totals.promptTokens += call.promptTokens;
+  totals.completionTokens += call.completionTokens;
+  totals.totalTokens += call.promptTokens + call.completionTokens;
+  totals.costUsd += call.costUsd ?? 0;
+}
+
+function emptySummary(): UsageSummary {
+  return { ...emptyTotals(), byStage: {}, unpricedModels: [] };
+}
+
+function addToSummary(summary: UsageSummary, call: LLMCallUsage): void {
+  addToTotals(summary, call);
+
+  const stageTotals = summary.byStage[call.stage] ?? emptyTotals();
+  addToTotals(stageTotals, call);
+  summary.byStage[call.stage] = stageTotals;
+
+  if (call.costUsd === null && !summary.unpricedModels.includes(call.model)) {
+    summary.unpricedModels.push(call.model);
+  }
+}
+
+/**
+ * Totals overall and per stage for a list of calls
+ */
+export function summarizeUsage(calls: LLMCallUsage[]): UsageSummary {
+  const summary = emptySummary();
+  for (const call of calls) {
+    addToSummary(summary, call);
+  }
+  return summary;
+}
+
+class UsageTracker {
+  // Process-lifetime totals; sessions expire, these don't
+  private completedReports = 0;
+  private reportTotals = emptyTotals();
+  private callTotals = emptySummary();
+
+  /**
+   * Price an LLM call and store it on the session
+   */
+  recordCall(sessionId: string, stage: ModelStage, route: ResolvedStageRoute, usage: TokenUsage): LLMCallUsage {
+    const call: LLMCallUsage = {
+      stage,
+      provider: route.provider,
+      model: route.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: modelPricing.estimateCost(route.model, usage.promptTokens, usage.completionTokens),
+      timestamp: Date.now(),
+    };
+
+    sessionManager.updateSession(sessionId, { usage: call });
+
+    addToSummary(this.callTotals, call);
+    return call;
+  }
+
+  /**
+   * Count a completed report generation towards the cost-per-report stats
+   */
+  recordReport(calls: LLMCallUsage[]): void {
+    this.completedReports += 1;
+    for (const call of calls) {
+      addToTotals(this.reportTotals, call);
+    }
+  }
+
+  /**
+   * Aggregate usage across sessions
+   */
+  getStats() {
+    const reports = this.completedReports;
+
+    return {
+      reports: {
+        completed: reports,
+        totalCostUsd: this.reportTotals.costUsd,
+        averageCostUsd: reports > 0 ? this.reportTotals.costUsd / reports : 0,
+        averageTokens: reports > 0 ? Math.round(this.reportTotals.totalTokens / reports) : 0,
+        averageCalls: reports > 0 ? this.reportTotals.calls / reports : 0,
+      },
+      // Every recorded call: reports, regenerations and chat
+      calls: this.callTotals,
+    };
+  }
+}
+
+// Singleton instance
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,50 @@
+import { modelRouting, ModelStage } from './routing';
+import { LLM_PROVIDERS, USER_API_KEY_PROVIDER } from './providers';
+
+/**
+ * Bring-your-own-key: users may supply an API key for USER_API_KEY_PROVIDER.
+ * It is sent in the X-User-Api-Key header (never a query string), bound to the
+ * session for its generation job (lib/session/api-key-store.ts) and passed down to every
+ * model call routed to that provider.
+ */
+
+export const USER_API_KEY_HEADER = 'x-user-api-key';
+
+const VALIDATION_TIMEOUT_MS = 10000;
+const MAX_KEY_LENGTH = 256;
+
+export type UserApiKeyValidation = { valid: true } | { valid: false; error: string };
+
+/**
+ * The key from the request headers, if one was sent
+ */
+export function readUserApiKey(headers: Headers): string | null {
+  const apiKey = headers.get(USER_API_KEY_HEADER)?.trim();
+  return apiKey ? apiKey : null;
+}
+
+/**
+ * Whether a user's key pays for every given stage, i.e. all of them are routed to
+ * its provider. Only then does it lift the rate limits.
+ */
+export function userKeyCoversStages(stages: ModelStage[]): boolean {
+  return stages.every((stage) => modelRouting.getRoute(stage).provider === USER_API_KEY_PROVIDER);
+}
+
+/**
+ * Check a key with USER_API_KEY_PROVIDER (at its configured base URL) before it is
+ * used. Throws when the provider can't be reached (the key may still be fine).
+ */
+export async function validateUserApiKey(apiKey: string): Promise<UserApiKeyValidation> {
+  if (apiKey.length > MAX_KEY_LENGTH || /\s/.test(apiKey)) {
+    return { valid: false, error: 'That does not look like an API key' };
+  }
+
+  const provider = LLM_PROVIDERS[USER_API_KEY_PROVIDER];
+  if (!provider.validateApiKey) {
+    throw new Error(`${provider.name} keys can't be checked`);
+  }
+
+  const valid = await provider.validateApiKey(apiKey, AbortSignal.timeout(VALIDATION_TIMEOUT_MS));
+  return valid ? { valid: true } : { valid: false, error: `The API key was rejected by ${provider.name}` };
+}
@@ -8,3 +8,10 @@ export function truncateText(input: string, maxChars: number): string {
 export function compactWhitespace(input: string): string {
   return input.replace(/\s+/g, ' ').trim();
 }
+
+/**
+ * Rough token count (about 4 characters per token) for prompt budgets
+ */
+export function estimateTokens(input: string): number {
+  return Math.ceil(input.length / 4);
+}
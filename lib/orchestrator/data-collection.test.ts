@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APIFootballProxy } from '../api-football/proxy';
+import { RequestThrottle } from '../api-football/throttle';
+import { SignalDefinition } from '../report/blueprint';
+import { collectDatasets, DatasetProgress, getRequiredDatasets } from './data-collection';
+
+// The API-Football client reads its mode once, on import
+vi.hoisted(() => {
+  process.env.APIFOOTBALL_MODE = 'replay';
+});
+
+// Recorded under recordings/api-football: Chelsea vs Arsenal, 10 Nov 2024
+const FIXTURE_ID = 1208125;
+
+function signal(id: string, dataRequirements: string[]): SignalDefinition {
+  return { id, name: id, description: id, dataRequirements };
+}
+
+describe('getRequiredDatasets', () => {
+  it('always includes the fixture', () => {
+    expect(getRequiredDatasets([])).toEqual(['fixture']);
+    expect(getRequiredDatasets([signal('injuries', ['injuries'])])).toEqual(['fixture', 'injuries']);
+  });
+
+  it('unions the requirements of every signal in a stable order', () => {
+    expect(
+      getRequiredDatasets([signal('table', ['predictions', 'standings']), signal('absentees', ['injuries', 'standings'])])
+    ).toEqual(['fixture', 'injuries', 'standings', 'predictions']);
+  });
+
+  it('skips unknown requirements with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getRequiredDatasets([signal('weather', ['weather', 'h2h'])])).toEqual(['fixture', 'h2h']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown data requirement "weather"'));
+    warn.mockRestore();
+  });
+});
+
+describe('collectDatasets', () => {
+  const throttle = new RequestThrottle(600000);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts dependent datasets only once the fixture is in, and the rest right away', async () => {
+    const updates: DatasetProgress[] = [];
+    const data = await collectDatasets({
+      fixtureId: FIXTURE_ID,
+      datasets: ['fixture', 'injuries', 'h2h', 'standings', 'predictions'],
+      throttle,
+      onProgress: (update) => updates.push(update),
+    });
+
+    expect(Object.keys(data).sort()).toEqual(['fixture', 'h2h', 'injuries', 'predictions', 'standings']);
+    expect(data.fixture?.teams.home.name).toBe('Chelsea');
+
+    const order = updates.map((update) => `${update.dataset}:${update.status}`);
+    const fixtureDone = order.indexOf('fixture:completed');
+    expect(order.indexOf('h2h:started')).toBeGreaterThan(fixtureDone);
+    expect(order.indexOf('standings:started')).toBeGreaterThan(fixtureDone);
+    expect(order.indexOf('injuries:started')).toBeLessThan(fixtureDone);
+    expect(order.indexOf('predictions:started')).toBeLessThan(fixtureDone);
+
+    expect(updates.at(-1)).toMatchObject({ completed: 5, total: 5 });
+  });
+
+  it('fetches a dependency that was not requested without reporting it', async () => {
+    const updates: DatasetProgress[] = [];
+    const data = await collectDatasets({
+      fixtureId: FIXTURE_ID,
+      datasets: ['h2h'],
+      throttle,
+      onProgress: (update) => updates.push(update),
+    });
+
+    expect(data.fixture).toBeDefined();
+    expect(data.h2h?.length).toBeGreaterThan(0);
+    expect(updates.at(-1)).toMatchObject({ dataset: 'h2h', status: 'completed' });
+  });
+
+  it('carries on without optional datasets the API has nothing for', async () => {
+    vi.spyOn(APIFootballProxy, 'getInjuries').mockResolvedValue({ success: false, error: 'No data' });
+    const updates: DatasetProgress[] = [];
+
+    const data = await collectDatasets({
+      fixtureId: FIXTURE_ID,
+      datasets: ['fixture', 'injuries', 'predictions'],
+      throttle,
+      onProgress: (update) => updates.push(update),
+    });
+
+    expect(data.injuries).toBeUndefined();
+    expect(data.predictions).toBeDefined();
+    expect(updates).toContainEqual(expect.objectContaining({ dataset: 'injuries', status: 'unavailable' }));
+  });
+
+  it('fails when the fixture itself cannot be fetched', async () => {
+    await expect(
+      collectDatasets({ fixtureId: 1, datasets: ['fixture', 'h2h', 'standings'], throttle })
+    ).rejects.toThrow('Failed to fetch fixture details');
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled by user'));
+
+    await expect(
+      collectDatasets({ fixtureId: FIXTURE_ID, datasets: ['fixture', 'injuries'], throttle, signal: controller.signal })
+    ).rejects.toThrow('Cancelled by user');
+  });
+});
@@ -0,0 +1,256 @@
+import { APIFootballProxy } from '../api-football/proxy';
+import { RequestOptions } from '../api-football/client';
+import { apiFootballThrottle, RequestThrottle } from '../api-football/throttle';
+import { CollectedData } from '../session/types';
+import { SignalDefinition } from '../report/blueprint';
+
+export type DatasetKey = keyof CollectedData;
+
+export type DatasetStatus = 'started' | 'completed' | 'unavailable' | 'skipped';
+
+export interface DatasetProgress {
+  dataset: DatasetKey;
+  label: string;
+  status: DatasetStatus;
+  completed: number;
+  total: number;
+}
+
+interface DatasetContext {
+  fixtureId: number;
+  // Everything collected so far (dependencies are guaranteed to be present)
+  collected: CollectedData;
+  throttle: RequestThrottle;
+  options: RequestOptions;
+}
+
+interface DatasetDefinition {
+  label: string;
+  dependsOn: DatasetKey[];
+  // Collection fails outright if a critical dataset can't be fetched
+  critical?: boolean;
+  // Resolve to the data, or null when the API has nothing for this fixture
+  fetch(ctx: DatasetContext): Promise<CollectedData[DatasetKey] | null>;
+}
+
+/**
+ * How to fetch each dataset and what it needs first.
+ * Only h2h (team IDs) and standings (league/season) depend on the fixture;
+ * everything else is keyed by fixture ID alone.
+ */
+const DATASETS: Record<DatasetKey, DatasetDefinition> = {
+  fixture: {
+    label: 'fixture details',
+    dependsOn: [],
+    critical: true,
+    async fetch({ fixtureId, throttle, options }) {
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getFixtures({ id: fixtureId }, options);
+      return result.success && result.data && result.data.length > 0 ? result.data[0] : null;
+    },
+  },
+  statistics: {
+    label: 'match statistics',
+    dependsOn: [],
+    async fetch({ fixtureId, throttle, options }) {
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getStatistics({ fixture: fixtureId }, options);
+      return result.success && result.data ? result.data : null;
+    },
+  },
+  injuries: {
+    label: 'injury reports',
+    dependsOn: [],
+    async fetch({ fixtureId, throttle, options }) {
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getInjuries({ fixture: fixtureId }, options);
+      return result.success && result.data ? result.data : null;
+    },
+  },
+  lineups: {
+    label: 'team lineups',
+    dependsOn: [],
+    async fetch({ fixtureId, throttle, options }) {
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getLineups({ fixture: fixtureId }, options);
+      return result.success && result.data ? result.data : null;
+    },
+  },
+  h2h: {
+    label: 'head-to-head history',
+    dependsOn: ['fixture'],
+    async fetch({ collected, throttle, options }) {
+      const fixture = collected.fixture!;
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getH2H(
+        { h2h: `${fixture.teams.home.id}-${fixture.teams.away.id}` },
+        options
+      );
+      return result.success && result.data ? result.data : null;
+    },
+  },
+  standings: {
+    label: 'league standings',
+    dependsOn: ['fixture'],
+    async fetch({ collected, throttle, options }) {
+      const fixture = collected.fixture!;
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getStandings(
+        { league: fixture.league.id, season: fixture.league.season },
+        options
+      );
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      if (!result.success && result.error?.includes('Free plans')) {
+        // Free plan season restriction - try last available season (2023)
+        console.log('⚠️  Current season not available on free plan, trying 2023...');
+        await throttle.throttle(options.signal);
+        const fallback = await APIFootballProxy.getStandings(
+          { league: fixture.league.id, season: 2023 },
+          options
+        );
+        if (fallback.success && fallback.data) {
+          return fallback.data;
+        }
+      }
+
+      return null;
+    },
+  },
+  predictions: {
+    label: 'AI predictions',
+    dependsOn: [],
+    async fetch({ fixtureId, throttle, options }) {
+      await throttle.throttle(options.signal);
+      const result = await APIFootballProxy.getPredictions({ fixture: fixtureId }, options);
+      return result.success && result.data ? result.data : null;
+    },
+  },
+};
+
+function isDatasetKey(value: string): value is DatasetKey {
+  return Object.prototype.hasOwnProperty.call(DATASETS, value);
+}
+
+/**
+ * Union of the datasets the given signals need, plus their dependencies.
+ * The fixture is always included since the rest of the pipeline relies on it.
+ */
+export function getRequiredDatasets(signals: SignalDefinition[]): DatasetKey[] {
+  const required = new Set<DatasetKey>();
+
+  const add = (key: DatasetKey) => {
+    if (required.has(key)) return;
+    required.add(key);
+    DATASETS[key].dependsOn.forEach(add);
+  };
+
+  add('fixture');
+  for (const signal of signals) {
+    for (const requirement of signal.dataRequirements) {
+      if (isDatasetKey(requirement)) {
+        add(requirement);
+      } else {
+        console.warn(`⚠️  Unknown data requirement "${requirement}" in signal ${signal.id}`);
+      }
+    }
+  }
+
+  // Keep a stable order (definition order) for logging and progress
+  return (Object.keys(DATASETS) as DatasetKey[]).filter((key) => required.has(key));
+}
+
+/**
+ * Fetch the requested datasets as a dependency graph: each dataset starts as
+ * soon as its dependencies resolve, and independent fetches run in parallel
+ * while sharing the API-Football throttle.
+ */
+export async function collectDatasets(params: {
+  fixtureId: number;
+  datasets: DatasetKey[];
+  signal?: AbortSignal;
+  throttle?: RequestThrottle;
+  onProgress?: (update: DatasetProgress) => void;
+}): Promise<CollectedData> {
+  const { fixtureId, datasets, onProgress } = params;
+  const throttle = params.throttle ?? apiFootballThrottle;
+
+  // Internal controller so a critical failure stops sibling fetches too
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(params.signal?.reason);
+  if (params.signal?.aborted) onAbort();
+  params.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const collected: CollectedData = {};
+  const runs = new Map<DatasetKey, Promise<boolean>>();
+  const total = datasets.length;
+  let completed = 0;
+  let criticalError: Error | null = null;
+
+  const report = (dataset: DatasetKey, status: DatasetStatus) => {
+    if (status !== 'started') completed++;
+    onProgress?.({ dataset, label: DATASETS[dataset].label, status, completed, total });
+  };
+
+  const run = (key: DatasetKey): Promise<boolean> => {
+    const existing = runs.get(key);
+    if (existing) return existing;
+
+    const definition = DATASETS[key];
+    const promise = (async () => {
+      const dependenciesMet = await Promise.all(definition.dependsOn.map(run));
+      if (dependenciesMet.includes(false)) {
+        report(key, 'skipped');
+        return false;
+      }
+
+      controller.signal.throwIfAborted();
+      report(key, 'started');
+
+      const data = await definition.fetch({
+        fixtureId,
+        collected,
+        throttle,
+        // Reports are built from what the API says now, not a stale cache entry
+        options: { signal: controller.signal, fresh: true },
+      });
+
+      // The proxy turns aborted requests into failed results; surface the abort instead
+      controller.signal.throwIfAborted();
+
+      if (data === null || data === undefined) {
+        if (definition.critical) {
+          criticalError = new Error(`Failed to fetch ${definition.label}`);
+          controller.abort(criticalError);
+          throw criticalError;
+        }
+        console.log(`⚠️  No ${definition.label} available for fixture ${fixtureId}`);
+        report(key, 'unavailable');
+        return false;
+      }
+
+      Object.assign(collected, { [key]: data });
+      report(key, 'completed');
+      return true;
+    })();
+
+    runs.set(key, promise);
+    return promise;
+  };
+
+  try {
+    const results = await Promise.allSettled(datasets.map(run));
+
+    if (criticalError) throw criticalError;
+    params.signal?.throwIfAborted();
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+
+    return collected;
+  } finally {
+    params.signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,173 @@
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationResult, generateReport, parseRegenerationTarget, regenerateSection } from './generator';
+import { CancelledError } from '../errors/error-handler';
+import { sessionManager } from '../session/manager';
+import { blueprintRegistry } from '../report/blueprint-registry';
+import { EvalFixture } from '../eval/fixtures';
+
+// Model routes are resolved once, on import
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = 'fake';
+  delete process.env.LLM_ROUTING_CONFIG;
+});
+
+const fixture = JSON.parse(readFileSync('eval/fixtures/1208125.json', 'utf8')) as EvalFixture;
+
+function createSession(): string {
+  const blueprint = blueprintRegistry.getBlueprint()!;
+  return sessionManager.createSession({
+    fixtureId: fixture.fixtureId,
+    blueprintId: blueprint.id,
+    blueprintVersion: blueprint.version,
+    audienceId: 'commentator',
+    localeId: 'en',
+  });
+}
+
+describe('generateReport', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts a retry from a clean report', async () => {
+    const sessionId = createSession();
+    const stale = {
+      categoryId: 'old',
+      signalId: 'stale',
+      title: 'Stale',
+      insights: [],
+      narrative: 'From the failed run',
+      emoji: '⚽',
+      confidence: 0.3,
+    };
+    sessionManager.updateSession(sessionId, {
+      status: 'error',
+      error: 'Previous run failed',
+      partialReport: { key: 'old.stale', report: stale },
+      categoryReport: { key: 'old', report: { categoryId: 'old', title: 'Old', sections: [], talkingPoints: [] } },
+    });
+
+    await generateReport(sessionId, () => {}, { collectedData: fixture.collectedData, bypassCache: true });
+
+    const session = sessionManager.getSession(sessionId)!;
+    expect(session.status).toBe('completed');
+    expect(session.error).toBeUndefined();
+    expect(session.partialReports['old.stale']).toBeUndefined();
+    expect(session.categoryReports.old).toBeUndefined();
+    expect(Object.keys(session.partialReports).length).toBeGreaterThan(0);
+    expect(session.finalReport).toBeTruthy();
+  });
+
+  it('stops at the next step once cancelled and marks the session cancelled', async () => {
+    const sessionId = createSession();
+    const controller = new AbortController();
+    const results: string[] = [];
+
+    const run = generateReport(sessionId, () => {}, {
+      collectedData: fixture.collectedData,
+      bypassCache: true,
+      signal: controller.signal,
+      onResult: (result) => {
+        results.push(result.key);
+        controller.abort();
+      },
+    });
+
+    await expect(run).rejects.toBeInstanceOf(CancelledError);
+    const session = sessionManager.getSession(sessionId)!;
+    expect(session.status).toBe('cancelled');
+    expect(results).toHaveLength(1);
+    expect(Object.keys(session.partialReports)).toEqual(results);
+    expect(session.finalReport).toBeNull();
+  });
+});
+
+describe('parseRegenerationTarget', () => {
+  const blueprint = blueprintRegistry.getBlueprint()!;
+
+  it('parses a category ID or a category.signal key', () => {
+    expect(parseRegenerationTarget('team_context', blueprint)).toEqual({ type: 'category', categoryId: 'team_context' });
+    expect(parseRegenerationTarget('team_context.recent_form_results', blueprint)).toEqual({
+      type: 'signal',
+      categoryId: 'team_context',
+      signalId: 'recent_form_results',
+    });
+  });
+
+  it('rejects keys that are not in the blueprint', () => {
+    expect(parseRegenerationTarget('unknown', blueprint)).toBeNull();
+    expect(parseRegenerationTarget('team_context.unknown', blueprint)).toBeNull();
+    // The signal exists, but in another category
+    expect(parseRegenerationTarget('team_context.injury_report', blueprint)).toBeNull();
+    expect(parseRegenerationTarget('team_context.recent_form_results.extra', blueprint)).toBeNull();
+    expect(parseRegenerationTarget('', blueprint)).toBeNull();
+  });
+});
+
+describe('regenerateSection', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function generatedSession(): Promise<string> {
+    const sessionId = createSession();
+    await generateReport(sessionId, () => {}, { collectedData: fixture.collectedData, bypassCache: true });
+    return sessionId;
+  }
+
+  it('reruns one signal, its category and the final report, leaving the rest alone', async () => {
+    const sessionId = await generatedSession();
+    const before = { ...sessionManager.getSession(sessionId)!.partialReports };
+    const results: GenerationResult[] = [];
+
+    await regenerateSection(
+      sessionId,
+      { type: 'signal', categoryId: 'team_context', signalId: 'recent_form_results' },
+      () => {},
+      { onResult: (result) => results.push(result) }
+    );
+
+    const session = sessionManager.getSession(sessionId)!;
+    expect(results.map((result) => `${result.type}:${result.key}`)).toEqual([
+      'signal:team_context.recent_form_results',
+      'category:team_context',
+    ]);
+    expect(session.status).toBe('completed');
+    expect(session.finalReport).toBeTruthy();
+    expect(session.partialReports['team_context.recent_form_results']).not.toBe(before['team_context.recent_form_results']);
+    expect(session.partialReports['key_players.injury_report']).toBe(before['key_players.injury_report']);
+  });
+
+  it('reruns only the category for a category target', async () => {
+    const sessionId = await generatedSession();
+    const results: GenerationResult[] = [];
+
+    await regenerateSection(sessionId, { type: 'category', categoryId: 'key_players' }, () => {}, {
+      onResult: (result) => results.push(result),
+    });
+
+    expect(results.map((result) => `${result.type}:${result.key}`)).toEqual(['category:key_players']);
+  });
+
+  it('needs the collected data of a generated report', async () => {
+    const sessionId = createSession();
+
+    await expect(
+      regenerateSection(sessionId, { type: 'category', categoryId: 'key_players' }, () => {})
+    ).rejects.toThrow('No collected data for this session');
+  });
+});
+
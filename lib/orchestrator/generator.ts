@@ -1,7 +1,19 @@
 import { sessionManager } from '../session/manager';
-import { Session, PartialReport, CategoryReport } from '../session/types';
-import { APIFootballProxy } from '../api-football/proxy';
-import { REPORT_BLUEPRINT, getAllSignals, getCategoryById } from '../report/blueprint';
+import { Session, PartialReport, CategoryReport, CollectedData } from '../session/types';
+import {
+  CategoryDefinition,
+  ReportBlueprint,
+  SignalDefinition,
+  getAllSignals,
+  getCategoryById,
+  getSignalById,
+} from '../report/blueprint';
+import { blueprintRegistry } from '../report/blueprint-registry';
+import { AudienceProfile, getAudienceProfile } from '../report/audiences';
+import { LocaleProfile, formatLocaleDate, getLocaleProfile } from '../report/locales';
+import { FactCheckResult, factCheckFinalReport, factCheckTexts } from '../report/fact-check';
+import { filterCitations } from '../report/citations';
+import { CategorySummary, FinalReport } from '../report/types';
 import { ProgressTracker, ProgressCallback } from './progress-tracker';
 import {
   analyzeSignal,
@@ -16,50 +28,136 @@ import {
   formatCategoryReportsForFinal,
   formatFinalReportAsMarkdown,
 } from '../llm/chains/final-chain';
+import { CancelledError } from '../errors/error-handler';
+import { modelRouting, ModelStage, ResolvedStageRoute } from '../llm/routing';
+import { LLMCallUsage, UsageCallback, usageTracker } from '../llm/usage';
+import { collectDatasets, getRequiredDatasets } from './data-collection';
 
 /**
- * Simple throttle utility to control API request rate
- * Ensures minimum delay between consecutive API calls
+ * A signal or category report, emitted as soon as it is stored on the session
  */
-class RequestThrottle {
-  private lastRequestTime = 0;
-  private minDelayMs: number;
+export type GenerationResult =
+  | { type: 'signal'; key: string; report: PartialReport }
+  | { type: 'category'; key: string; report: CategoryReport };
 
-  constructor(requestsPerMinute: number = 30) {
-    // Calculate minimum delay to stay within rate limit
-    this.minDelayMs = Math.ceil(60000 / requestsPerMinute);
-  }
+export type ResultCallback = (result: GenerationResult) => void;
 
-  async throttle(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.minDelayMs) {
-      const delayNeeded = this.minDelayMs - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, delayNeeded));
-    }
-    
-    this.lastRequestTime = Date.now();
+/**
+ * A single section to regenerate: one signal (plus its category) or one category
+ */
+export type RegenerationTarget =
+  | { type: 'signal'; categoryId: string; signalId: string }
+  | { type: 'category'; categoryId: string };
+
+/**
+ * Parse a "category.signal" key or a category ID.
+ * Returns null if it doesn't match the blueprint.
+ */
+export function parseRegenerationTarget(key: string, blueprint: ReportBlueprint): RegenerationTarget | null {
+  const [categoryId, signalId, ...rest] = key.split('.');
+  if (rest.length > 0 || !getCategoryById(blueprint, categoryId)) return null;
+
+  if (signalId === undefined) {
+    return { type: 'category', categoryId };
   }
+  return getSignalById(blueprint, categoryId, signalId) ? { type: 'signal', categoryId, signalId } : null;
+}
+
+export interface ReportGeneratorOptions {
+  // Aborts in-flight API-Football/LLM calls and stops the pipeline
+  signal?: AbortSignal;
+  onResult?: ResultCallback;
+  // Report on this data instead of fetching it (offline evaluation, see lib/eval)
+  collectedData?: CollectedData;
+  // Ignore cached LLM results (fresh ones are still stored)
+  bypassCache?: boolean;
+  // The user's own API key, used instead of the server key where it applies
+  apiKey?: string;
 }
 
 export class ReportGenerator {
   private sessionId: string;
   private progressCallback: ProgressCallback;
-  private throttle: RequestThrottle;
   private signalConcurrency: number;
-
-  constructor(sessionId: string, progressCallback: ProgressCallback) {
+  private signal?: AbortSignal;
+  private onResult?: ResultCallback;
+  private storedData?: CollectedData;
+  private apiKey?: string;
+  // Resolved from the session at the start of generate()/regenerate()
+  private blueprint!: ReportBlueprint;
+  private audience!: AudienceProfile;
+  private locale!: LocaleProfile;
+  private routes: Partial<Record<ModelStage, ResolvedStageRoute>> = {};
+  // LLM calls made by the current run
+  private usage: LLMCallUsage[] = [];
+  // Section regeneration (and evaluation) asks for a fresh answer even when inputs are unchanged
+  private bypassCache: boolean;
+
+  constructor(sessionId: string, progressCallback: ProgressCallback, options: ReportGeneratorOptions = {}) {
     this.sessionId = sessionId;
     this.progressCallback = progressCallback;
-    // API-Football free plans: 10 requests/minute limit
-    // Use 5-6 req/min for safety margin (avoid rate limit errors)
-    const rpm = Number.parseInt(process.env.APIFOOTBALL_REQUESTS_PER_MINUTE || '5', 10);
-    this.throttle = new RequestThrottle(Number.isFinite(rpm) && rpm > 0 ? rpm : 5);
+    this.signal = options.signal;
+    this.onResult = options.onResult;
+    this.storedData = options.collectedData;
+    this.apiKey = options.apiKey;
+    this.bypassCache = options.bypassCache ?? false;
     // Reduce parallelism to 1 for stability and avoid overwhelming APIs
     this.signalConcurrency = 1;
   }
 
+  /**
+   * Throw if generation has been cancelled
+   */
+  private throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new CancelledError('Report generation');
+    }
+  }
+
+  private storePartialReport(key: string, report: PartialReport): void {
+    sessionManager.updateSession(this.sessionId, { partialReport: { key, report } });
+    this.onResult?.({ type: 'signal', key, report });
+  }
+
+  private storeCategoryReport(key: string, report: CategoryReport): void {
+    sessionManager.updateSession(this.sessionId, { categoryReport: { key, report } });
+    this.onResult?.({ type: 'category', key, report });
+  }
+
+  /**
+   * Resolve the model routes for the stages about to run and record them on the session
+   */
+  private resolveRoutes(stages: ModelStage[]): void {
+    this.routes = Object.fromEntries(stages.map((stage) => [stage, modelRouting.getRoute(stage)]));
+    this.usage = [];
+    sessionManager.updateSession(this.sessionId, { stageModels: this.routes });
+  }
+
+  /**
+   * Records each LLM call of a stage (priced, on the session)
+   */
+  private trackUsage(stage: ModelStage): UsageCallback {
+    return (usage) => {
+      const route = this.routes[stage] ?? modelRouting.getRoute(stage);
+      this.usage.push(usageTracker.recordCall(this.sessionId, stage, route, usage));
+    };
+  }
+
+  private logFactCheck(section: string, factCheck: FactCheckResult | null): void {
+    if (!factCheck || factCheck.issues.length === 0) return;
+
+    const corrected = factCheck.issues.filter((issue) => issue.action === 'corrected').length;
+    const flagged = factCheck.issues.length - corrected;
+    console.warn(`⚠️  Fact check (${section}): ${corrected} corrected, ${flagged} unsupported of ${factCheck.checked} claim(s)`);
+  }
+
+  private cacheOptions(tracker: ProgressTracker) {
+    return {
+      bypass: this.bypassCache,
+      onLookup: (hit: boolean) => tracker.recordCacheLookup(hit),
+    };
+  }
+
   /**
    * Main orchestration method - generates complete report
    */
@@ -69,15 +167,20 @@ export class ReportGenerator {
       throw new Error(`Session not found: ${this.sessionId}`);
     }
 
-    const allSignals = getAllSignals();
+    this.blueprint = blueprintRegistry.getBlueprintForSession(session);
+    this.audience = getAudienceProfile(session.audienceId);
+    this.locale = getLocaleProfile(session.localeId);
+    this.resolveRoutes(['signal', 'category', 'final']);
+    const allSignals = getAllSignals(this.blueprint);
     const tracker = new ProgressTracker(
       allSignals.length,
-      REPORT_BLUEPRINT.length,
+      this.blueprint.categories.length,
       this.progressCallback
     );
 
     try {
-      // Update session status
+      // Update session status (a retry starts from a clean report)
+      sessionManager.resetReport(this.sessionId);
       sessionManager.updateSession(this.sessionId, { status: 'generating' });
 
       // Stage 1: Data Collection (0-20%)
@@ -94,13 +197,19 @@ export class ReportGenerator {
 
       // Mark as completed
       sessionManager.updateSession(this.sessionId, { status: 'completed' });
+      usageTracker.recordReport(this.usage);
+
+      const cacheStats = tracker.getCacheStats();
+      console.log(`💾 LLM cache: ${cacheStats.hits} hit(s), ${cacheStats.misses} miss(es)`);
       
-      this.progressCallback({
-        stage: 'final_synthesis',
-        progress: 100,
-        message: 'Report generation completed!',
-      });
+      tracker.emitComplete('Report generation completed!');
     } catch (error) {
+      if (this.signal?.aborted) {
+        console.log(`⏹  Report generation cancelled: ${this.sessionId}`);
+        sessionManager.updateSession(this.sessionId, { status: 'cancelled' });
+        throw new CancelledError('Report generation');
+      }
+
       console.error('Report generation error:', error);
       sessionManager.updateSession(this.sessionId, {
         status: 'error',
@@ -111,164 +220,100 @@ export class ReportGenerator {
   }
 
   /**
-   * Stage 1: Collect all required data from API-Football
+   * Rerun one section against the stored collected data, then resynthesize
+   * the final report. A signal target also remerges its category.
    */
-  private async collectData(session: Session, tracker: ProgressTracker): Promise<void> {
-    tracker.emitDataCollection('Fetching fixture details...');
+  async regenerate(target: RegenerationTarget): Promise<void> {
+    const session = sessionManager.getSession(this.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${this.sessionId}`);
+    }
+    if (!session.collectedData.fixture) {
+      throw new Error('No collected data for this session. Generate the full report first.');
+    }
 
-    // Get fixture details
-    await this.throttle.throttle();
-    const fixtureResult = await APIFootballProxy.getFixtures({ id: session.fixtureId });
-    if (fixtureResult.success && fixtureResult.data && fixtureResult.data.length > 0) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { fixture: fixtureResult.data[0] },
-      });
-    } else {
-      throw new Error('Failed to fetch fixture details');
+    this.blueprint = blueprintRegistry.getBlueprintForSession(session);
+    this.audience = getAudienceProfile(session.audienceId);
+    this.locale = getLocaleProfile(session.localeId);
+    this.resolveRoutes(target.type === 'signal' ? ['signal', 'category', 'final'] : ['category', 'final']);
+    this.bypassCache = true;
+    const category = getCategoryById(this.blueprint, target.categoryId);
+    if (!category) {
+      throw new Error(`Unknown category: ${target.categoryId}`);
     }
 
-    const fixture = fixtureResult.data[0];
-    const homeTeamId = fixture.teams.home.id;
-    const awayTeamId = fixture.teams.away.id;
+    const tracker = new ProgressTracker(target.type === 'signal' ? 1 : 0, 1, this.progressCallback);
 
-    // Get statistics
-    tracker.emitDataCollection('Fetching match statistics...');
-    await this.throttle.throttle();
-    const statsResult = await APIFootballProxy.getStatistics({ fixture: session.fixtureId });
-    if (statsResult.success && statsResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { statistics: statsResult.data },
-      });
-    }
+    try {
+      sessionManager.updateSession(this.sessionId, { status: 'generating' });
 
-    // Get injuries
-    tracker.emitDataCollection('Fetching injury reports...');
-    await this.throttle.throttle();
-    const injuriesResult = await APIFootballProxy.getInjuries({ fixture: session.fixtureId });
-    if (injuriesResult.success && injuriesResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { injuries: injuriesResult.data },
-      });
-    }
+      if (target.type === 'signal') {
+        const signal = getSignalById(this.blueprint, target.categoryId, target.signalId);
+        if (!signal) {
+          throw new Error(`Unknown signal: ${target.categoryId}.${target.signalId}`);
+        }
+        const succeeded = await this.runSignal(category.id, signal, tracker);
+        if (!succeeded) {
+          throw new Error(`Failed to regenerate ${signal.name}`);
+        }
+      }
 
-    // Get lineups
-    tracker.emitDataCollection('Fetching team lineups...');
-    await this.throttle.throttle();
-    const lineupsResult = await APIFootballProxy.getLineups({ fixture: session.fixtureId });
-    if (lineupsResult.success && lineupsResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { lineups: lineupsResult.data },
-      });
-    }
+      await this.runCategory(category, tracker);
+      await this.synthesizeFinal(session, tracker);
 
-    // Get H2H
-    tracker.emitDataCollection('Fetching head-to-head history...');
-    await this.throttle.throttle();
-    const h2hResult = await APIFootballProxy.getH2H({ h2h: `${homeTeamId}-${awayTeamId}` });
-    if (h2hResult.success && h2hResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { h2h: h2hResult.data },
-      });
-    }
+      sessionManager.updateSession(this.sessionId, { status: 'completed' });
 
-    // Get standings
-    tracker.emitDataCollection('Fetching league standings...');
-    await this.throttle.throttle();
-    const standingsResult = await APIFootballProxy.getStandings({
-      league: fixture.league.id,
-      season: fixture.league.season,
-    });
-    if (standingsResult.success && standingsResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { standings: standingsResult.data },
-      });
-    } else if (!standingsResult.success && standingsResult.error?.includes('Free plans')) {
-      // Free plan season restriction - try last available season (2023)
-      console.log('⚠️  Current season not available on free plan, trying 2023...');
-      const fallbackResult = await APIFootballProxy.getStandings({
-        league: fixture.league.id,
-        season: 2023,
-      });
-      if (fallbackResult.success && fallbackResult.data) {
-        sessionManager.updateSession(this.sessionId, {
-          collectedData: { standings: fallbackResult.data },
-        });
+      tracker.emitComplete('Section regenerated!');
+    } catch (error) {
+      // The session still holds a complete report (the previous one, or the
+      // new one with this section's fallback), so keep it usable
+      sessionManager.updateSession(this.sessionId, { status: 'completed' });
+
+      if (this.signal?.aborted) {
+        console.log(`⏹  Section regeneration cancelled: ${this.sessionId}`);
+        throw new CancelledError('Section regeneration');
       }
+
+      console.error('Section regeneration error:', error);
+      throw error;
     }
+  }
 
-    // Get AI predictions (NEW!)
-    tracker.emitDataCollection('Fetching AI predictions...');
-    await this.throttle.throttle();
-    const predictionsResult = await APIFootballProxy.getPredictions({ fixture: session.fixtureId });
-    if (predictionsResult.success && predictionsResult.data) {
-      sessionManager.updateSession(this.sessionId, {
-        collectedData: { predictions: predictionsResult.data },
-      });
-      console.log('✓ AI predictions loaded successfully');
-    } else {
-      console.log('⚠️  No AI predictions available for this fixture');
+  /**
+   * Stage 1: Collect all required data from API-Football
+   */
+  private async collectData(session: Session, tracker: ProgressTracker): Promise<void> {
+    if (this.storedData) {
+      sessionManager.updateSession(this.sessionId, { collectedData: this.storedData, dataCollectedAt: Date.now() });
+      tracker.emitDataCollection('Using stored data', 20);
+      return;
     }
 
-    tracker.emitDataCollection('Data collection completed');
+    // Only fetch what the blueprint's signals actually use
+    const datasets = getRequiredDatasets(getAllSignals(this.blueprint).map(({ signal }) => signal));
+    console.log(`📥 Collecting datasets: ${datasets.join(', ')}`);
+
+    const collectedData = await collectDatasets({
+      fixtureId: session.fixtureId,
+      datasets,
+      signal: this.signal,
+      onProgress: (update) => tracker.emitDatasetProgress(update),
+    });
+
+    sessionManager.updateSession(this.sessionId, { collectedData, dataCollectedAt: Date.now() });
+
+    this.throwIfCancelled();
+    tracker.emitDataCollection('Data collection completed', 20);
   }
 
   /**
    * Stage 2: Generate signal-level reports
    */
   private async generateSignals(session: Session, tracker: ProgressTracker): Promise<void> {
-    const allSignals = getAllSignals();
-    const updatedSession = sessionManager.getSession(this.sessionId);
-    if (!updatedSession) throw new Error('Session lost');
-
-    const fixture = updatedSession.collectedData.fixture;
-    if (!fixture) throw new Error('Fixture data not available');
+    const allSignals = getAllSignals(this.blueprint);
 
     const tasks = allSignals.map(({ categoryId, signal }) => async () => {
-      tracker.emitSignalStart(categoryId, signal.id, signal.name);
-
-      try {
-        // Always read the latest session snapshot (other tasks may have updated it).
-        const latestSession = sessionManager.getSession(this.sessionId);
-        if (!latestSession) throw new Error('Session lost');
-        const latestFixture = latestSession.collectedData.fixture;
-        if (!latestFixture) throw new Error('Fixture data not available');
-
-        const collectedDataStr = formatCollectedDataForSignal(
-          latestSession.collectedData,
-          signal.dataRequirements
-        );
-
-        const result = await analyzeSignal({
-          homeTeam: latestFixture.teams.home.name,
-          awayTeam: latestFixture.teams.away.name,
-          league: latestFixture.league.name,
-          date: new Date(latestFixture.fixture.date).toLocaleDateString(),
-          signalName: signal.name,
-          signalDescription: signal.description,
-          collectedData: collectedDataStr,
-        });
-
-        const partialReport: PartialReport = {
-          categoryId,
-          signalId: signal.id,
-          title: signal.name,
-          insights: result.insights,
-          narrative: result.narrative,
-          emoji: result.emoji,
-          confidence: result.confidence,
-        };
-
-        sessionManager.updateSession(this.sessionId, {
-          partialReport: {
-            key: `${categoryId}.${signal.id}`,
-            report: partialReport,
-          },
-        });
-
-        tracker.emitSignalComplete(categoryId, signal.id);
-      } catch (error) {
-        console.error(`Failed to generate signal ${categoryId}.${signal.id}:`, error);
-      }
+      await this.runSignal(categoryId, signal, tracker);
     });
 
     let nextIndex = 0;
@@ -287,114 +332,231 @@ export class ReportGenerator {
     await Promise.all(workers);
   }
 
+  /**
+   * Analyze a single signal against the stored collected data.
+   * Returns false if the signal failed (the error is logged, not thrown).
+   */
+  private async runSignal(
+    categoryId: string,
+    signal: SignalDefinition,
+    tracker: ProgressTracker
+  ): Promise<boolean> {
+    this.throwIfCancelled();
+    tracker.emitSignalStart(categoryId, signal.id, signal.name);
+
+    try {
+      // Always read the latest session snapshot (other tasks may have updated it).
+      const latestSession = sessionManager.getSession(this.sessionId);
+      if (!latestSession) throw new Error('Session lost');
+      const latestFixture = latestSession.collectedData.fixture;
+      if (!latestFixture) throw new Error('Fixture data not available');
+
+      const collectedDataStr = formatCollectedDataForSignal(
+        latestSession.collectedData,
+        signal.dataRequirements
+      );
+
+      const result = await analyzeSignal({
+        homeTeam: latestFixture.teams.home.name,
+        awayTeam: latestFixture.teams.away.name,
+        league: latestFixture.league.name,
+        date: formatLocaleDate(latestFixture.fixture.date, this.locale),
+        signalName: signal.name,
+        signalDescription: signal.description,
+        collectedData: collectedDataStr,
+      }, {
+        signal: this.signal,
+        audience: this.audience,
+        locale: this.locale,
+        route: this.routes.signal,
+        apiKey: this.apiKey,
+        onUsage: this.trackUsage('signal'),
+        cache: this.cacheOptions(tracker),
+      });
+
+      // Check the numbers against the data the signal was given
+      const key = `${categoryId}.${signal.id}`;
+      const collectedData = latestSession.collectedData;
+      const { texts: [narrative, ...insightTexts], result: factCheck } = factCheckTexts(
+        [result.narrative, ...result.insights.map((insight) => insight.text)],
+        collectedData,
+        this.locale
+      );
+      this.logFactCheck(key, factCheck);
+
+      const partialReport: PartialReport = {
+        categoryId,
+        signalId: signal.id,
+        title: signal.name,
+        insights: result.insights.map((insight, idx) => ({
+          text: insightTexts[idx],
+          sources: filterCitations(insight.sources, collectedData),
+        })),
+        narrative,
+        emoji: result.emoji,
+        confidence: result.confidence,
+        ...(factCheck && { factCheck }),
+        ...(result.fallback && { fallback: true }),
+      };
+
+      this.storePartialReport(key, partialReport);
+
+      tracker.emitSignalComplete(categoryId, signal.id);
+      return true;
+    } catch (error) {
+      if (this.signal?.aborted) throw error;
+      console.error(`Failed to generate signal ${categoryId}.${signal.id}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Stage 3: Merge signals into category reports
    */
   private async mergeCategories(session: Session, tracker: ProgressTracker): Promise<void> {
+    for (const category of this.blueprint.categories) {
+      await this.runCategory(category, tracker);
+    }
+  }
+
+  /**
+   * Merge one category's signal reports, storing a fallback report on failure
+   */
+  private async runCategory(category: CategoryDefinition, tracker: ProgressTracker): Promise<void> {
+    this.throwIfCancelled();
+
     const updatedSession = sessionManager.getSession(this.sessionId);
     if (!updatedSession) throw new Error('Session lost');
 
     const fixture = updatedSession.collectedData.fixture;
     if (!fixture) throw new Error('Fixture data not available');
 
-    for (const category of REPORT_BLUEPRINT) {
-      tracker.emitCategoryStart(category.id, category.name);
-
-      try {
-        // Get all partial reports for this category
-        const partialReports = category.signals
-          .map((signal) => updatedSession.partialReports[`${category.id}.${signal.id}`])
-          .filter((report) => report !== undefined);
-
-        if (partialReports.length === 0) {
-          console.warn(`No partial reports for category ${category.id}, creating fallback`);
-          // Create a minimal fallback category report
-          const fallbackReport: CategoryReport = {
-            categoryId: category.id,
-            title: `${category.emoji} ${category.name}`,
-            sections: [{
-              title: category.name,
-              content: `Analysis for ${category.name} is being processed. Data collection completed but synthesis is pending.`,
-              emoji: category.emoji,
-            }],
-            talkingPoints: [`${category.name} analysis in progress`],
-          };
-          
-          sessionManager.updateSession(this.sessionId, {
-            categoryReport: {
-              key: category.id,
-              report: fallbackReport,
-            },
-          });
-          
-          tracker.emitCategoryComplete(category.id);
-          continue;
-        }
-
-        // Format partial reports
-        const formattedReports = formatPartialReportsForCategory(partialReports);
-
-        // Merge with LLM
-        const result = await mergeCategory({
-          homeTeam: fixture.teams.home.name,
-          awayTeam: fixture.teams.away.name,
-          categoryName: category.name,
-          categoryEmoji: category.emoji,
-          signalReports: formattedReports,
-        });
-
-        // Validate result has required fields
-        if (!result.sections || !Array.isArray(result.sections) || result.sections.length === 0) {
-          console.warn(`Invalid merge result for ${category.id}, using fallback`);
-          throw new Error('Invalid merge result');
-        }
-
-        // Store category report
-        const categoryReport: CategoryReport = {
-          categoryId: category.id,
-          title: result.title || `${category.emoji} ${category.name}`,
-          sections: result.sections,
-          talkingPoints: result.talkingPoints || [],
-        };
-
-        sessionManager.updateSession(this.sessionId, {
-          categoryReport: {
-            key: category.id,
-            report: categoryReport,
-          },
-        });
+    tracker.emitCategoryStart(category.id, category.name);
 
-        tracker.emitCategoryComplete(category.id);
-      } catch (error) {
-        console.error(`Failed to merge category ${category.id}:`, error);
-        // Create fallback category report
+    try {
+      // Get all partial reports for this category
+      const partialReports = category.signals
+        .map((signal) => updatedSession.partialReports[`${category.id}.${signal.id}`])
+        .filter((report) => report !== undefined);
+
+      if (partialReports.length === 0) {
+        console.warn(`No partial reports for category ${category.id}, creating fallback`);
+        // Create a minimal fallback category report
         const fallbackReport: CategoryReport = {
           categoryId: category.id,
           title: `${category.emoji} ${category.name}`,
           sections: [{
             title: category.name,
-            content: `Analysis for ${category.name} encountered processing issues. Key data has been collected and is available for review.`,
+            content: this.locale.messages.categoryPending.content(category.name),
             emoji: category.emoji,
+            sources: [],
           }],
-          talkingPoints: [`${category.name} requires manual review`],
+          talkingPoints: [this.locale.messages.categoryPending.talkingPoint(category.name)],
+          fallback: true,
         };
-        
-        sessionManager.updateSession(this.sessionId, {
-          categoryReport: {
-            key: category.id,
-            report: fallbackReport,
-          },
-        });
-        
+
+        this.storeCategoryReport(category.id, fallbackReport);
+
         tracker.emitCategoryComplete(category.id);
+        return;
+      }
+
+      // Format partial reports
+      const formattedReports = formatPartialReportsForCategory(partialReports);
+
+      // Merge with LLM
+      const result = await mergeCategory({
+        homeTeam: fixture.teams.home.name,
+        awayTeam: fixture.teams.away.name,
+        categoryName: category.name,
+        categoryEmoji: category.emoji,
+        signalReports: formattedReports,
+      }, {
+        signal: this.signal,
+        audience: this.audience,
+        locale: this.locale,
+        route: this.routes.category,
+        apiKey: this.apiKey,
+        onUsage: this.trackUsage('category'),
+        cache: this.cacheOptions(tracker),
+      });
+
+      // Validate result has required fields
+      if (!result.sections || !Array.isArray(result.sections) || result.sections.length === 0) {
+        console.warn(`Invalid merge result for ${category.id}, using fallback`);
+        throw new Error('Invalid merge result');
       }
+
+      // Store category report
+      const categoryReport: CategoryReport = {
+        categoryId: category.id,
+        title: result.title || `${category.emoji} ${category.name}`,
+        sections: result.sections.map((section) => ({
+          ...section,
+          sources: filterCitations(section.sources, updatedSession.collectedData),
+        })),
+        talkingPoints: result.talkingPoints || [],
+      };
+
+      this.storeCategoryReport(category.id, categoryReport);
+
+      tracker.emitCategoryComplete(category.id);
+    } catch (error) {
+      if (this.signal?.aborted) throw error;
+      console.error(`Failed to merge category ${category.id}:`, error);
+      // Create fallback category report
+      const fallbackReport: CategoryReport = {
+        categoryId: category.id,
+        title: `${category.emoji} ${category.name}`,
+        sections: [{
+          title: category.name,
+          content: this.locale.messages.categoryFailed.content(category.name),
+          emoji: category.emoji,
+          sources: [],
+        }],
+        talkingPoints: [this.locale.messages.categoryFailed.talkingPoint(category.name)],
+        fallback: true,
+      };
+
+      this.storeCategoryReport(category.id, fallbackReport);
+
+      tracker.emitCategoryComplete(category.id);
     }
   }
 
+  /**
+   * Category reports in blueprint order, with the confidence of each signal behind them
+   */
+  private summarizeCategories(session: Session): CategorySummary[] {
+    return this.blueprint.categories
+      .filter((category) => session.categoryReports[category.id])
+      .map((category) => {
+        const report = session.categoryReports[category.id];
+        const signals = category.signals
+          .map((signal) => session.partialReports[`${category.id}.${signal.id}`])
+          .filter((partial) => partial !== undefined)
+          .map((partial) => ({
+            signalId: partial.signalId,
+            title: partial.title,
+            emoji: partial.emoji,
+            confidence: partial.confidence,
+          }));
+
+        return {
+          categoryId: category.id,
+          title: report.title,
+          sections: report.sections,
+          talkingPoints: report.talkingPoints,
+          signals,
+        };
+      });
+  }
+
   /**
    * Stage 4: Synthesize final comprehensive report
    */
   private async synthesizeFinal(session: Session, tracker: ProgressTracker): Promise<void> {
+    this.throwIfCancelled();
     tracker.emitFinalSynthesis('Synthesizing final report...', 5);
 
     const updatedSession = sessionManager.getSession(this.sessionId);
@@ -424,47 +586,67 @@ export class ReportGenerator {
         homeTeam: fixture.teams.home.name,
         awayTeam: fixture.teams.away.name,
         league: fixture.league.name,
-        date: new Date(fixture.fixture.date).toLocaleDateString(),
+        date: formatLocaleDate(fixture.fixture.date, this.locale),
         categoryReports: formattedCategories,
+      }, {
+        signal: this.signal,
+        audience: this.audience,
+        locale: this.locale,
+        route: this.routes.final,
+        apiKey: this.apiKey,
+        onUsage: this.trackUsage('final'),
+        cache: this.cacheOptions(tracker),
       });
 
       tracker.emitFinalSynthesis('Formatting final report...', 9);
 
+      // Verify the numbers that survived synthesis
+      const collectedData = updatedSession.collectedData;
+      const checked = factCheckFinalReport(result, collectedData, this.locale);
+      this.logFactCheck('final: talking points', checked.talkingPointsCheck);
+
+      const structuredReport: FinalReport = {
+        title: checked.report.title,
+        subtitle: checked.report.subtitle,
+        sections: checked.report.sections.map((section, idx) => {
+          const factCheck = checked.sectionChecks[idx];
+          this.logFactCheck(`final: ${section.title}`, factCheck);
+          return {
+            ...section,
+            sources: filterCitations(section.sources, collectedData),
+            ...(factCheck && { factCheck }),
+          };
+        }),
+        quickTalkingPoints: checked.report.quickTalkingPoints,
+        ...(checked.talkingPointsCheck && { talkingPointsFactCheck: checked.talkingPointsCheck }),
+        categories: this.summarizeCategories(updatedSession),
+        generatedAt: Date.now(),
+      };
+
       // Format as markdown
-      const finalReport = formatFinalReportAsMarkdown(result);
+      const finalReport = formatFinalReportAsMarkdown(structuredReport, this.locale);
 
       // Store final report
       sessionManager.updateSession(this.sessionId, {
         finalReport,
+        structuredReport,
       });
     } catch (error) {
+      if (this.signal?.aborted) throw error;
       console.error('Failed to synthesize final report:', error);
       
       // Create a basic fallback report
-      const fallbackReport = `# Match Report: ${fixture.teams.home.name} vs ${fixture.teams.away.name}
-
-## ⚠️ Report Generation Issue
-
-The automated report generation encountered technical difficulties. However, data collection was successful.
-
-### Match Details
-- **Competition**: ${fixture.league.name}
-- **Date**: ${new Date(fixture.fixture.date).toLocaleDateString()}
-- **Venue**: ${fixture.fixture.venue.name || 'TBD'}
-
-### Available Data
-All match data has been successfully collected including:
-- Team statistics
-- Player lineups and injuries
-- Head-to-head history
-- League standings
-- AI predictions
-
-Please regenerate the report or contact support if this issue persists.
-`;
+      const fallbackReport = this.locale.messages.finalFallback({
+        homeTeam: fixture.teams.home.name,
+        awayTeam: fixture.teams.away.name,
+        league: fixture.league.name,
+        date: formatLocaleDate(fixture.fixture.date, this.locale),
+        venue: fixture.fixture.venue.name,
+      });
 
       sessionManager.updateSession(this.sessionId, {
         finalReport: fallbackReport,
+        structuredReport: null,
       });
       
       // Don't throw - allow completion with fallback
@@ -478,8 +660,22 @@ Please regenerate the report or contact support if this issue persists.
  */
 export async function generateReport(
   sessionId: string,
-  progressCallback: ProgressCallback
+  progressCallback: ProgressCallback,
+  options: ReportGeneratorOptions = {}
 ): Promise<void> {
-  const generator = new ReportGenerator(sessionId, progressCallback);
+  const generator = new ReportGenerator(sessionId, progressCallback, options);
   await generator.generate();
 }
+
+/**
+ * Convenience function to regenerate a single section of an existing report
+ */
+export async function regenerateSection(
+  sessionId: string,
+  target: RegenerationTarget,
+  progressCallback: ProgressCallback,
+  options: ReportGeneratorOptions = {}
+): Promise<void> {
+  const generator = new ReportGenerator(sessionId, progressCallback, options);
+  await generator.regenerate(target);
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationEvent, GenerationJob, generationJobManager } from './job-manager';
+import { generateReport } from './generator';
+import { sessionManager } from '../session/manager';
+import { blueprintRegistry } from '../report/blueprint-registry';
+
+// The detach grace period is read once, on import
+vi.hoisted(() => {
+  process.env.GENERATION_DETACH_GRACE_MS = '1000';
+});
+
+vi.mock('./generator', () => ({
+  generateReport: vi.fn(),
+  regenerateSection: vi.fn(),
+}));
+
+function createSession(): string {
+  const blueprint = blueprintRegistry.getBlueprint()!;
+  return sessionManager.createSession({
+    fixtureId: 1208125,
+    blueprintId: blueprint.id,
+    blueprintVersion: blueprint.version,
+    audienceId: 'commentator',
+    localeId: 'en',
+  });
+}
+
+function eventNames(events: GenerationEvent[]): string[] {
+  return events.map((entry) => entry.event);
+}
+
+describe('GenerationJob', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replays only the events after Last-Event-ID, then streams live ones', () => {
+    const job = new GenerationJob('session');
+    job.emit('start', {});
+    job.emit('progress', { progress: 10 });
+    job.emit('progress', { progress: 20 });
+
+    const received: GenerationEvent[] = [];
+    job.subscribe((entry) => received.push(entry), 2);
+    job.emit('signal_complete', { key: 'form.home' });
+
+    expect(received.map((entry) => entry.id)).toEqual([3, 4]);
+    expect(eventNames(received)).toEqual(['progress', 'signal_complete']);
+  });
+
+  it('cancels once every client has been gone for the grace period', () => {
+    const job = new GenerationJob('session');
+    const unsubscribe = job.subscribe(() => {});
+    unsubscribe();
+
+    vi.advanceTimersByTime(999);
+    expect(job.signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(job.signal.aborted).toBe(true);
+  });
+
+  it('keeps running when a client reattaches within the grace period', () => {
+    const job = new GenerationJob('session');
+    job.subscribe(() => {})();
+
+    vi.advanceTimersByTime(500);
+    job.subscribe(() => {});
+    vi.advanceTimersByTime(5000);
+
+    expect(job.signal.aborted).toBe(false);
+  });
+
+  it('is not cancelled by a detach after it finished', () => {
+    const job = new GenerationJob('session');
+    const unsubscribe = job.subscribe(() => {});
+    job.finish('completed');
+    unsubscribe();
+
+    vi.advanceTimersByTime(5000);
+    expect(job.signal.aborted).toBe(false);
+  });
+});
+
+describe('generationJobManager', () => {
+  const generate = vi.mocked(generateReport);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    generate.mockReset();
+  });
+
+  it('reattaches to the running job instead of starting another', async () => {
+    const sessionId = createSession();
+    let finish!: () => void;
+    generate.mockImplementation((id) => new Promise((resolve) => {
+      finish = () => {
+        sessionManager.updateSession(id, { finalReport: '# Report', status: 'completed' });
+        resolve();
+      };
+    }));
+
+    const job = generationJobManager.startJob(sessionId);
+    expect(generationJobManager.startJob(sessionId)).toBe(job);
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    const received: GenerationEvent[] = [];
+    job.subscribe((entry) => received.push(entry));
+    finish();
+    await vi.waitFor(() => expect(job.status).toBe('completed'));
+
+    expect(eventNames(received)).toEqual(['start', 'complete', 'done']);
+    expect(generationJobManager.startJob(sessionId)).not.toBe(job);
+  });
+
+  it('passes the user key to the run and reports errors on the stream', async () => {
+    const sessionId = createSession();
+    generate.mockRejectedValue(new Error('Model unavailable'));
+
+    const job = generationJobManager.startJob(sessionId, 'sk-user');
+    await vi.waitFor(() => expect(job.status).toBe('error'));
+
+    const received: GenerationEvent[] = [];
+    job.subscribe((entry) => received.push(entry));
+    expect(generate.mock.calls[0][2]).toMatchObject({ apiKey: 'sk-user', signal: job.signal });
+    expect(eventNames(received)).toEqual(['start', 'server_error', 'done']);
+    expect(received[1].data).toEqual({ message: 'Model unavailable' });
+  });
+
+  it('cancels a running job and reports it on the stream', async () => {
+    const sessionId = createSession();
+    generate.mockImplementation((_id, _progress, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+    }));
+
+    const job = generationJobManager.startJob(sessionId);
+    expect(generationJobManager.cancelJob(sessionId)).toBe(true);
+    await vi.waitFor(() => expect(job.status).toBe('cancelled'));
+
+    expect(generationJobManager.cancelJob(sessionId)).toBe(false);
+    const received: GenerationEvent[] = [];
+    job.subscribe((entry) => received.push(entry), 1);
+    expect(eventNames(received)).toEqual(['cancelled', 'done']);
+  });
+});
@@ -0,0 +1,258 @@
+import { sessionManager } from '../session/manager';
+import {
+  generateReport,
+  regenerateSection,
+  GenerationResult,
+  RegenerationTarget,
+  ReportGeneratorOptions,
+} from './generator';
+import { ProgressCallback, ProgressUpdate } from './progress-tracker';
+import { getBlueprintOutline } from '../report/blueprint';
+import { blueprintRegistry } from '../report/blueprint-registry';
+import { CancelledError } from '../errors/error-handler';
+
+export type JobStatus = 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface GenerationEvent {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+type JobListener = (event: GenerationEvent) => void;
+
+type JobWork = (progressCallback: ProgressCallback, options: ReportGeneratorOptions) => Promise<void>;
+
+// Finished jobs stay attachable for a while so late reconnects still get the tail of the stream
+const FINISHED_JOB_RETENTION_MS = 5 * 60 * 1000;
+
+// A running job with no attached clients is cancelled after this grace period
+// (long enough to survive a page refresh or EventSource reconnect)
+const DETACH_GRACE_MS = Number.parseInt(process.env.GENERATION_DETACH_GRACE_MS || '30000', 10);
+
+/**
+ * A single report generation run for a session.
+ * Every emitted event is buffered with an incrementing ID so clients can
+ * (re)attach at any time and resume after the last event they saw.
+ */
+export class GenerationJob {
+  readonly sessionId: string;
+  readonly startedAt: number;
+  status: JobStatus = 'running';
+  finishedAt?: number;
+
+  private events: GenerationEvent[] = [];
+  private listeners: Set<JobListener> = new Set();
+  private nextEventId = 1;
+  private abortController = new AbortController();
+  private detachTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+    this.startedAt = Date.now();
+  }
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Abort the running pipeline (no-op once finished)
+   */
+  cancel(reason: string): void {
+    if (this.status !== 'running' || this.signal.aborted) return;
+    console.log(`⏹  Cancelling generation for ${this.sessionId}: ${reason}`);
+    this.clearDetachTimer();
+    this.abortController.abort(new CancelledError('Report generation'));
+  }
+
+  private clearDetachTimer(): void {
+    if (this.detachTimer) {
+      clearTimeout(this.detachTimer);
+      this.detachTimer = null;
+    }
+  }
+
+  /**
+   * Buffer an event and fan it out to attached listeners
+   */
+  emit(event: string, data: unknown): void {
+    const entry: GenerationEvent = { id: this.nextEventId++, event, data };
+    this.events.push(entry);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.warn(`⚠️  Generation listener failed for ${this.sessionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Attach a listener, replaying every buffered event after `lastEventId` first.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: JobListener, lastEventId = 0): () => void {
+    for (const entry of this.events) {
+      if (entry.id > lastEventId) {
+        listener(entry);
+      }
+    }
+
+    this.listeners.add(listener);
+    this.clearDetachTimer();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.status === 'running' && DETACH_GRACE_MS >= 0) {
+        this.clearDetachTimer();
+        this.detachTimer = setTimeout(() => this.cancel('all clients disconnected'), DETACH_GRACE_MS);
+      }
+    };
+  }
+
+  finish(status: Exclude<JobStatus, 'running'>): void {
+    this.status = status;
+    this.finishedAt = Date.now();
+    this.clearDetachTimer();
+  }
+}
+
+class GenerationJobManager {
+  private jobs: Map<string, GenerationJob> = new Map();
+
+  /**
+   * Get the running (or recently finished) job for a session
+   */
+  getJob(sessionId: string): GenerationJob | null {
+    return this.jobs.get(sessionId) ?? null;
+  }
+
+  /**
+   * Start generation for a session, or return the job that is already running.
+   * The job runs independently of any HTTP stream. `apiKey` is the user's own key.
+   */
+  startJob(sessionId: string, apiKey?: string): GenerationJob {
+    const existing = this.jobs.get(sessionId);
+    if (existing && existing.status === 'running') {
+      return existing;
+    }
+
+    const job = new GenerationJob(sessionId);
+    this.jobs.set(sessionId, job);
+
+    void this.run(job, 'Starting report generation...', (progressCallback, options) =>
+      generateReport(sessionId, progressCallback, { ...options, apiKey })
+    );
+    return job;
+  }
+
+  /**
+   * Regenerate one section of a finished report as a job, so clients can
+   * follow it over the same SSE stream. Returns null if a job is already running.
+   */
+  startRegeneration(sessionId: string, target: RegenerationTarget, apiKey?: string): GenerationJob | null {
+    const existing = this.jobs.get(sessionId);
+    if (existing && existing.status === 'running') {
+      return null;
+    }
+
+    const job = new GenerationJob(sessionId);
+    this.jobs.set(sessionId, job);
+
+    void this.run(job, 'Regenerating section...', (progressCallback, options) =>
+      regenerateSection(sessionId, target, progressCallback, { ...options, apiKey })
+    );
+    return job;
+  }
+
+  private async run(job: GenerationJob, startMessage: string, work: JobWork): Promise<void> {
+    const progressCallback = (update: ProgressUpdate) => {
+      job.emit('progress', {
+        stage: update.stage,
+        progress: update.progress,
+        message: update.message,
+        currentTask: update.currentTask,
+        details: update.details,
+      });
+    };
+
+    // Structured results let the page render sections before the final report exists
+    const onResult = (result: GenerationResult) => {
+      job.emit(`${result.type}_complete`, { key: result.key, report: result.report });
+    };
+
+    try {
+      job.emit('start', { sessionId: job.sessionId, message: startMessage });
+
+      await work(progressCallback, { signal: job.signal, onResult });
+
+      const session = sessionManager.getSession(job.sessionId);
+      if (!session?.finalReport) {
+        throw new Error('Report generation completed but no report found');
+      }
+
+      job.emit('complete', {
+        report: session.finalReport,
+        structuredReport: session.structuredReport,
+        outline: getBlueprintOutline(blueprintRegistry.getBlueprintForSession(session)),
+        message: 'Report generation completed!',
+      });
+      job.finish('completed');
+    } catch (error) {
+      if (error instanceof CancelledError || job.signal.aborted) {
+        job.emit('cancelled', { message: 'Report generation was cancelled' });
+        job.finish('cancelled');
+        return;
+      }
+
+      console.error('Report generation error:', error);
+      job.emit('server_error', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      job.finish('error');
+    } finally {
+      job.emit('done', { message: 'Stream closed' });
+    }
+  }
+
+  /**
+   * Cancel the running job for a session.
+   * Returns false if there is nothing to cancel.
+   */
+  cancelJob(sessionId: string): boolean {
+    const job = this.jobs.get(sessionId);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+
+    job.cancel('cancelled by request');
+    return true;
+  }
+
+  /**
+   * Drop finished jobs past their retention window
+   */
+  cleanupFinishedJobs(): number {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [sessionId, job] of this.jobs.entries()) {
+      if (job.finishedAt && now - job.finishedAt > FINISHED_JOB_RETENTION_MS) {
+        this.jobs.delete(sessionId);
+        cleaned++;
+      }
+    }
+
+    return cleaned;
+  }
+}
+
+// Singleton instance
+export const generationJobManager = new GenerationJobManager();
+
+// Auto cleanup every minute
+setInterval(() => {
+  generationJobManager.cleanupFinishedJobs();
+}, 60 * 1000);
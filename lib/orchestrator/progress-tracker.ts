@@ -1,3 +1,5 @@
+import { DatasetProgress } from './data-collection';
+
 export type ProgressStage =
   | 'data_collection'
   | 'signal_generation'
@@ -14,7 +16,16 @@ export interface ProgressUpdate {
     total?: number;
     categoryId?: string;
     signalId?: string;
+    dataset?: string;
+    datasetStatus?: string;
   };
+  // LLM response cache lookups so far in this run
+  cache?: CacheStats;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
 export type ProgressCallback = (update: ProgressUpdate) => void;
@@ -24,6 +35,7 @@ export class ProgressTracker {
   private totalCategories: number;
   private completedSignals = 0;
   private completedCategories = 0;
+  private cacheStats: CacheStats = { hits: 0, misses: 0 };
   private callback: ProgressCallback;
 
   constructor(totalSignals: number, totalCategories: number, callback: ProgressCallback) {
@@ -32,23 +44,68 @@ export class ProgressTracker {
     this.callback = callback;
   }
 
+  private emit(update: ProgressUpdate) {
+    const lookups = this.cacheStats.hits + this.cacheStats.misses;
+    this.callback(lookups > 0 ? { ...update, cache: this.getCacheStats() } : update);
+  }
+
+  /**
+   * Count an LLM response cache lookup (reported with every later update)
+   */
+  recordCacheLookup(hit: boolean) {
+    if (hit) {
+      this.cacheStats.hits++;
+    } else {
+      this.cacheStats.misses++;
+    }
+  }
+
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
+
   /**
    * Emit data collection progress
    */
-  emitDataCollection(message: string) {
-    this.callback({
+  emitDataCollection(message: string, progress: number = 10) {
+    this.emit({
       stage: 'data_collection',
-      progress: 10,
+      progress,
       message,
       currentTask: message,
     });
   }
 
+  /**
+   * Emit per-dataset collection progress (0-20%)
+   */
+  emitDatasetProgress(update: DatasetProgress) {
+    const verb = {
+      started: 'Fetching',
+      completed: 'Fetched',
+      unavailable: 'No data for',
+      skipped: 'Skipped',
+    }[update.status];
+
+    this.emit({
+      stage: 'data_collection',
+      progress: Math.floor((update.completed / update.total) * 20),
+      message: `${verb} ${update.label}`,
+      currentTask: update.status === 'started' ? `Fetching ${update.label}...` : undefined,
+      details: {
+        current: update.completed,
+        total: update.total,
+        dataset: update.dataset,
+        datasetStatus: update.status,
+      },
+    });
+  }
+
   /**
    * Emit signal generation start
    */
   emitSignalStart(categoryId: string, signalId: string, signalName: string) {
-    this.callback({
+    this.emit({
       stage: 'signal_generation',
       progress: 20 + Math.floor((this.completedSignals / this.totalSignals) * 50),
       message: `Analyzing: ${signalName}`,
@@ -67,7 +124,7 @@ export class ProgressTracker {
    */
   emitSignalComplete(categoryId: string, signalId: string) {
     this.completedSignals++;
-    this.callback({
+    this.emit({
       stage: 'signal_generation',
       progress: 20 + Math.floor((this.completedSignals / this.totalSignals) * 50),
       message: `Completed ${this.completedSignals}/${this.totalSignals} signals`,
@@ -84,7 +141,7 @@ export class ProgressTracker {
    * Emit category merge start
    */
   emitCategoryStart(categoryId: string, categoryName: string) {
-    this.callback({
+    this.emit({
       stage: 'category_merge',
       progress: 70 + Math.floor((this.completedCategories / this.totalCategories) * 20),
       message: `Merging category: ${categoryName}`,
@@ -102,7 +159,7 @@ export class ProgressTracker {
    */
   emitCategoryComplete(categoryId: string) {
     this.completedCategories++;
-    this.callback({
+    this.emit({
       stage: 'category_merge',
       progress: 70 + Math.floor((this.completedCategories / this.totalCategories) * 20),
       message: `Completed ${this.completedCategories}/${this.totalCategories} categories`,
@@ -118,7 +175,7 @@ export class ProgressTracker {
    * Emit final synthesis progress
    */
   emitFinalSynthesis(message: string, progress: number) {
-    this.callback({
+    this.emit({
       stage: 'final_synthesis',
       progress: 90 + progress,
       message,
@@ -126,6 +183,17 @@ export class ProgressTracker {
     });
   }
 
+  /**
+   * Emit completion (100%)
+   */
+  emitComplete(message: string) {
+    this.emit({
+      stage: 'final_synthesis',
+      progress: 100,
+      message,
+    });
+  }
+
   /**
    * Get current progress percentage
    */
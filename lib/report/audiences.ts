@@ -0,0 +1,159 @@
+import { ReportBlueprint } from './blueprint';
+
+export type AudienceId = 'commentator' | 'betting' | 'fantasy' | 'casual';
+
+export type PromptStage = 'signal' | 'category' | 'final';
+
+export interface AudienceProfile {
+  id: AudienceId;
+  name: string;
+  description: string;
+  // Who the report is written for (used in every prompt)
+  audience: string;
+  tone: string;
+  // What this audience cares about most
+  focus: string;
+  length: {
+    signalNarrativeWords: string;
+    categoryTalkingPoints: string;
+    finalTalkingPoints: string;
+  };
+  // Blueprint subset: category IDs to keep and "category.signal" keys to drop (omit = keep all)
+  categories?: string[];
+  excludeSignals?: string[];
+  // Extra stage-specific instructions appended to the prompt
+  instructions: Partial<Record<PromptStage, string>>;
+}
+
+export const DEFAULT_AUDIENCE_ID: AudienceId = 'commentator';
+
+export const AUDIENCE_PROFILES: Record<AudienceId, AudienceProfile> = {
+  commentator: {
+    id: 'commentator',
+    name: 'Commentators',
+    description: 'Full pre-match briefing for live commentary and analysis',
+    audience: 'live commentators, analysts, and streamers who need quick, actionable insights before the match',
+    tone: 'Professional yet engaging',
+    focus: 'storylines, key statistics and talking points that work on air',
+    length: {
+      signalNarrativeWords: '100-150',
+      categoryTalkingPoints: '3-5',
+      finalTalkingPoints: '5-10',
+    },
+    instructions: {},
+  },
+  betting: {
+    id: 'betting',
+    name: 'Betting',
+    description: 'Probabilities, form and value angles for betting-minded readers',
+    audience: 'betting-minded readers weighing up markets before kickoff',
+    tone: 'Analytical, measured and evidence-led',
+    focus: 'win/draw/loss probabilities, expected goals, form, availability and where the numbers disagree with the narrative',
+    length: {
+      signalNarrativeWords: '80-120',
+      categoryTalkingPoints: '3-5',
+      finalTalkingPoints: '5-8',
+    },
+    excludeSignals: ['game_context.kickoff_weather_pitch'],
+    instructions: {
+      signal: 'Quote probabilities and expected goals exactly as given in the data. Never invent odds.',
+      final:
+        'Frame conclusions as likelihoods, not certainties, and close with a one-line reminder to gamble responsibly.',
+    },
+  },
+  fantasy: {
+    id: 'fantasy',
+    name: 'Fantasy managers',
+    description: 'Lineups, injuries and player picks for fantasy managers',
+    audience: 'fantasy football managers deciding on captains, transfers and benching',
+    tone: 'Practical and direct',
+    focus: 'confirmed and likely starters, injuries, minutes risk, attacking threat and clean-sheet chances',
+    length: {
+      signalNarrativeWords: '60-100',
+      categoryTalkingPoints: '3-5',
+      finalTalkingPoints: '5-8',
+    },
+    categories: ['team_context', 'key_players', 'tactical_battle'],
+    instructions: {
+      signal: 'Name specific players wherever the data allows.',
+      final: 'Finish with clear "start", "bench" and "captain" suggestions based on the data.',
+    },
+  },
+  casual: {
+    id: 'casual',
+    name: 'Casual fans',
+    description: 'A short, friendly preview without jargon',
+    audience: 'casual fans who want a quick, friendly preview of the match',
+    tone: 'Friendly, conversational and jargon-free',
+    focus: 'the story of the match, who to watch and why it matters',
+    length: {
+      signalNarrativeWords: '50-80',
+      categoryTalkingPoints: '3',
+      finalTalkingPoints: '5',
+    },
+    categories: ['game_context', 'key_players', 'psych_context'],
+    instructions: {
+      signal: 'Explain any statistic in plain words.',
+      final: 'Keep sections short and avoid tactical jargon.',
+    },
+  },
+};
+
+export function isAudienceId(value: string): value is AudienceId {
+  return Object.prototype.hasOwnProperty.call(AUDIENCE_PROFILES, value);
+}
+
+/**
+ * Get an audience profile (default profile if omitted)
+ */
+export function getAudienceProfile(id: AudienceId = DEFAULT_AUDIENCE_ID): AudienceProfile {
+  return AUDIENCE_PROFILES[id];
+}
+
+/**
+ * Narrow a blueprint to the categories and signals an audience cares about.
+ * Falls back to the full blueprint if the subset would leave nothing.
+ */
+export function applyAudienceToBlueprint(blueprint: ReportBlueprint, profile: AudienceProfile): ReportBlueprint {
+  const excluded = new Set(profile.excludeSignals ?? []);
+
+  const categories = blueprint.categories
+    .filter((category) => !profile.categories || profile.categories.includes(category.id))
+    .map((category) => ({
+      ...category,
+      signals: category.signals.filter((signal) => !excluded.has(`${category.id}.${signal.id}`)),
+    }))
+    .filter((category) => category.signals.length > 0);
+
+  if (categories.length === 0) {
+    console.warn(`⚠️  Audience "${profile.id}" matches nothing in blueprint ${blueprint.id}, using the full blueprint`);
+    return blueprint;
+  }
+
+  return { ...blueprint, categories };
+}
+
+export interface AudiencePromptVariables {
+  audience: string;
+  tone: string;
+  audienceFocus: string;
+  narrativeLength: string;
+  categoryTalkingPoints: string;
+  finalTalkingPoints: string;
+  audienceInstructions: string;
+}
+
+/**
+ * Template variables for a prompt stage
+ */
+export function getAudiencePromptVariables(profile: AudienceProfile, stage: PromptStage): AudiencePromptVariables {
+  return {
+    audience: profile.audience,
+    tone: profile.tone,
+    audienceFocus: profile.focus,
+    narrativeLength: profile.length.signalNarrativeWords,
+    categoryTalkingPoints: profile.length.categoryTalkingPoints,
+    finalTalkingPoints: profile.length.finalTalkingPoints,
+    audienceInstructions: profile.instructions[stage] ?? 'None.',
+  };
+}
@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseBlueprintFile } from './blueprint-registry';
+
+const tempDirs: string[] = [];
+
+function writeFiles(files: Record<string, string>): string {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'blueprints-'));
+  tempDirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+function blueprint(version: string, overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id: 'default',
+    name: `Default v${version}`,
+    version,
+    categories: [
+      {
+        id: 'form',
+        name: 'Form',
+        description: 'Recent results',
+        emoji: '📈',
+        signals: [{ id: 'recent', name: 'Recent form', description: 'Last five games', dataRequirements: ['standings'] }],
+      },
+    ],
+    ...overrides,
+  });
+}
+
+/**
+ * A fresh registry reading the given files (the singleton reads its directory on creation)
+ */
+async function loadRegistry(files: Record<string, string>) {
+  vi.stubEnv('REPORT_BLUEPRINTS_DIR', writeFiles(files));
+  vi.resetModules();
+  const { blueprintRegistry } = await import('./blueprint-registry');
+  return blueprintRegistry;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseBlueprintFile', () => {
+  it('reads YAML and turns a numeric version into a string', () => {
+    const dir = writeFiles({
+      'v2.yaml': `id: default
+name: Default
+version: 2
+categories:
+  - id: form
+    name: Form
+    description: Recent results
+    emoji: "📈"
+    signals:
+      - id: recent
+        name: Recent form
+        description: Last five games
+        dataRequirements: [standings, h2h]
+`,
+    });
+
+    const parsed = parseBlueprintFile(path.join(dir, 'v2.yaml'));
+    expect(parsed.version).toBe('2');
+    expect(parsed.categories[0].signals[0].dataRequirements).toEqual(['standings', 'h2h']);
+  });
+
+  it('rejects duplicate category and signal IDs', () => {
+    const signal = { id: 'recent', name: 'Recent form', description: 'Last five games', dataRequirements: ['standings'] };
+    const category = { id: 'form', name: 'Form', description: 'Recent results', emoji: '📈', signals: [signal, signal] };
+    const dir = writeFiles({ 'bad.json': blueprint('1.0.0', { categories: [category, category] }) });
+
+    expect(() => parseBlueprintFile(path.join(dir, 'bad.json'))).toThrow(/Duplicate signal ID "form\.recent"/);
+    expect(() => parseBlueprintFile(path.join(dir, 'bad.json'))).toThrow(/Duplicate category ID "form"/);
+  });
+
+  it('rejects IDs with dots and unknown data requirements', () => {
+    const dir = writeFiles({
+      'dotted.json': blueprint('1.0.0', { id: 'my.report' }),
+      'unknown-data.json': blueprint('1.0.0', {
+        categories: [
+          {
+            id: 'form',
+            name: 'Form',
+            description: 'Recent results',
+            emoji: '📈',
+            signals: [{ id: 'recent', name: 'Recent form', description: 'Last five games', dataRequirements: ['weather'] }],
+          },
+        ],
+      }),
+    });
+
+    expect(() => parseBlueprintFile(path.join(dir, 'dotted.json'))).toThrow(/id: IDs may only contain/);
+    expect(() => parseBlueprintFile(path.join(dir, 'unknown-data.json'))).toThrow(
+      /categories\.0\.signals\.0\.dataRequirements\.0/
+    );
+  });
+});
+
+describe('blueprintRegistry', () => {
+  it('returns the newest version by default, comparing versions numerically', async () => {
+    const registry = await loadRegistry({
+      'a.json': blueprint('1.2.0'),
+      'b.json': blueprint('1.10.0'),
+      'c.json': blueprint('1.9.5'),
+    });
+
+    expect(registry.getBlueprint()?.version).toBe('1.10.0');
+    expect(registry.getBlueprint('default')?.name).toBe('Default v1.10.0');
+  });
+
+  it('pins the exact version a session was created with', async () => {
+    const registry = await loadRegistry({ 'a.json': blueprint('1.0.0'), 'b.json': blueprint('2.0.0') });
+
+    expect(registry.getBlueprint('default', '1.0.0')?.name).toBe('Default v1.0.0');
+    expect(registry.getBlueprint('default', '3.0.0')).toBeNull();
+    expect(registry.getBlueprint('missing')).toBeNull();
+
+    const session = { blueprintId: 'default', blueprintVersion: '1.0.0', audienceId: 'commentator' as const };
+    expect(registry.getBlueprintForSession(session).name).toBe('Default v1.0.0');
+    expect(() => registry.getBlueprintForSession({ ...session, blueprintVersion: '0.9.0' })).toThrow(
+      'Report blueprint default@0.9.0 not found'
+    );
+  });
+
+  it('refuses the same version defined twice', async () => {
+    const registry = await loadRegistry({ 'a.json': blueprint('1.0.0'), 'b.json': blueprint('1.0.0') });
+    expect(() => registry.getBlueprint()).toThrow('Report blueprint default@1.0.0 is defined more than once (b.json)');
+  });
+
+  it('requires the default blueprint', async () => {
+    const registry = await loadRegistry({ 'other.json': blueprint('1.0.0', { id: 'other' }) });
+    expect(() => registry.getBlueprint('other')).toThrow(/Default report blueprint "default" not found/);
+  });
+});
@@ -0,0 +1,158 @@
+import { readdirSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { NotFoundError, ValidationError } from '../errors/error-handler';
+import { readConfigFile } from '../utils/config-file';
+import { COLLECTED_DATA_KEYS, CollectedData, Session } from '../session/types';
+import { ReportBlueprint } from './blueprint';
+import { applyAudienceToBlueprint, getAudienceProfile } from './audiences';
+
+/**
+ * Report blueprints loaded from JSON/YAML files in REPORT_BLUEPRINTS_DIR
+ * (default: config/blueprints). Several files may define the same blueprint ID
+ * with different versions; sessions pin the exact version they were created with.
+ */
+
+const DEFAULT_BLUEPRINT_ID = process.env.REPORT_BLUEPRINT_DEFAULT || 'default';
+
+// IDs end up in keys like "category.signal", so no dots
+const IdSchema = z.string().regex(/^[a-z0-9_-]+$/, 'IDs may only contain lowercase letters, digits, "_" and "-"');
+
+const DataRequirementSchema = z.enum(
+  COLLECTED_DATA_KEYS as [keyof CollectedData, ...Array<keyof CollectedData>]
+);
+
+const SignalDefinitionSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  description: z.string().min(1),
+  dataRequirements: z.array(DataRequirementSchema).min(1),
+});
+
+const CategoryDefinitionSchema = z.object({
+  id: IdSchema,
+  name: z.string().min(1),
+  description: z.string().min(1),
+  emoji: z.string().min(1),
+  signals: z.array(SignalDefinitionSchema).min(1),
+});
+
+const ReportBlueprintSchema = z
+  .object({
+    id: IdSchema,
+    name: z.string().min(1),
+    // YAML reads `version: 2` as a number
+    version: z.union([z.string().min(1), z.number()]).transform(String),
+    description: z.string().optional(),
+    categories: z.array(CategoryDefinitionSchema).min(1),
+  })
+  .superRefine((blueprint, ctx) => {
+    const categoryIds = new Set<string>();
+    blueprint.categories.forEach((category, categoryIndex) => {
+      if (categoryIds.has(category.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['categories', categoryIndex, 'id'],
+          message: `Duplicate category ID "${category.id}"`,
+        });
+      }
+      categoryIds.add(category.id);
+
+      const signalIds = new Set<string>();
+      category.signals.forEach((signal, signalIndex) => {
+        if (signalIds.has(signal.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['categories', categoryIndex, 'signals', signalIndex, 'id'],
+            message: `Duplicate signal ID "${category.id}.${signal.id}"`,
+          });
+        }
+        signalIds.add(signal.id);
+      });
+    });
+  });
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Parse and validate a single blueprint file
+ */
+export function parseBlueprintFile(filePath: string): ReportBlueprint {
+  return readConfigFile(filePath, ReportBlueprintSchema, 'report blueprint');
+}
+
+class BlueprintRegistry {
+  // blueprint ID -> versions, newest first
+  private blueprints: Map<string, ReportBlueprint[]> | null = null;
+  private readonly dir = path.resolve(process.cwd(), process.env.REPORT_BLUEPRINTS_DIR || 'config/blueprints');
+
+  private load(): Map<string, ReportBlueprint[]> {
+    if (this.blueprints) return this.blueprints;
+
+    const blueprints = new Map<string, ReportBlueprint[]>();
+    const files = readdirSync(this.dir)
+      .filter((file) => /\.(json|ya?ml)$/i.test(file))
+      .sort();
+
+    for (const file of files) {
+      const blueprint = parseBlueprintFile(path.join(this.dir, file));
+      const versions = blueprints.get(blueprint.id) ?? [];
+
+      if (versions.some((existing) => existing.version === blueprint.version)) {
+        throw new ValidationError(
+          `Report blueprint ${blueprint.id}@${blueprint.version} is defined more than once (${file})`
+        );
+      }
+
+      versions.push(blueprint);
+      versions.sort((a, b) => compareVersions(b.version, a.version));
+      blueprints.set(blueprint.id, versions);
+    }
+
+    if (!blueprints.has(DEFAULT_BLUEPRINT_ID)) {
+      throw new ValidationError(`Default report blueprint "${DEFAULT_BLUEPRINT_ID}" not found in ${this.dir}`);
+    }
+
+    console.log(`✓ Loaded ${files.length} report blueprint file(s) from ${this.dir}`);
+    this.blueprints = blueprints;
+    return blueprints;
+  }
+
+  /**
+   * Get a blueprint by ID (default blueprint if omitted).
+   * Without a version, the newest version is returned.
+   */
+  getBlueprint(id: string = DEFAULT_BLUEPRINT_ID, version?: string): ReportBlueprint | null {
+    const versions = this.load().get(id);
+    if (!versions) return null;
+
+    if (version === undefined) return versions[0];
+    return versions.find((blueprint) => blueprint.version === version) ?? null;
+  }
+
+  /**
+   * Get the exact blueprint version a session was created with,
+   * narrowed to the session's audience
+   */
+  getBlueprintForSession(
+    session: Pick<Session, 'blueprintId' | 'blueprintVersion' | 'audienceId'>
+  ): ReportBlueprint {
+    const blueprint = this.getBlueprint(session.blueprintId, session.blueprintVersion);
+    if (!blueprint) {
+      throw new NotFoundError(`Report blueprint ${session.blueprintId}@${session.blueprintVersion}`);
+    }
+    return applyAudienceToBlueprint(blueprint, getAudienceProfile(session.audienceId));
+  }
+
+  /**
+   * Drop cached blueprints so the next lookup re-reads the config files
+   */
+  reload(): void {
+    this.blueprints = null;
+  }
+}
+
+// Singleton instance
+export const blueprintRegistry = new BlueprintRegistry();
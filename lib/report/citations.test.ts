@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CollectedData } from '../session/types';
+import { filterCitations, resolveCitation } from './citations';
+
+// Chelsea (home, ID 49) vs Arsenal (away, ID 42), Premier League 2024
+const { collectedData: data } = JSON.parse(
+  readFileSync(path.join(process.cwd(), 'eval/fixtures/1208125.json'), 'utf8')
+) as { collectedData: CollectedData };
+
+describe('resolveCitation', () => {
+  it('follows properties and list indexes', () => {
+    expect(resolveCitation(data, 'fixture.teams.home.name')).toBe('Chelsea');
+    expect(resolveCitation(data, 'h2h[0].goals')).toEqual({ home: 1, away: 1 });
+    expect(resolveCitation(data, 'predictions.percent.draw')).toBe('30%');
+  });
+
+  it('picks a single team row with [home]/[away]', () => {
+    expect(resolveCitation(data, 'standings[home].points')).toBe(18);
+    expect(resolveCitation(data, 'standings[away].rank')).toBe(4);
+    expect(resolveCitation(data, 'lineups[away].formation')).toBe('4-3-3');
+  });
+
+  it('returns every matching row when a team has several', () => {
+    const injuries = resolveCitation(data, 'injuries[home]') as Array<{ team: { id: number } }>;
+    expect(injuries.length).toBeGreaterThan(1);
+    expect(injuries.every((row) => row.team.id === 49)).toBe(true);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(resolveCitation(data, '  standings[home].rank ')).toBe(3);
+  });
+
+  it('returns undefined for paths that do not exist', () => {
+    expect(resolveCitation(data, 'predictions.nope')).toBeUndefined();
+    expect(resolveCitation(data, 'standings[99]')).toBeUndefined();
+    expect(resolveCitation(data, 'odds')).toBeUndefined();
+  });
+
+  it('returns undefined for malformed references', () => {
+    expect(resolveCitation(data, 'h2h[0')).toBeUndefined();
+    expect(resolveCitation(data, '[0].goals')).toBeUndefined();
+    expect(resolveCitation(data, 'standings[home]..points')).toBeUndefined();
+    expect(resolveCitation(data, '')).toBeUndefined();
+  });
+});
+
+describe('filterCitations', () => {
+  it('keeps resolvable references, trimmed and de-duplicated, in order', () => {
+    expect(
+      filterCitations(['standings[home].points', ' h2h[0].goals', 'made.up', 'standings[home].points'], data)
+    ).toEqual(['standings[home].points', 'h2h[0].goals']);
+  });
+
+  it('caps the list at five references', () => {
+    const references = ['h2h[0]', 'h2h[1]', 'h2h[2]', 'h2h[3]', 'h2h[4]', 'standings[home]', 'standings[away]'];
+    expect(filterCitations(references, data)).toEqual(references.slice(0, 5));
+  });
+
+  it('accepts a missing list', () => {
+    expect(filterCitations(undefined, data)).toEqual([]);
+  });
+
+  it('drops everything when the dataset was not collected', () => {
+    expect(filterCitations(['standings[home].points', 'fixture.teams.home.name'], {})).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { COLLECTED_DATA_KEYS, CollectedData } from '../session/types';
+import { buildSignalData } from '../llm/utils/signal-data';
+
+/**
+ * Citation references point from report text back into the data the model saw,
+ * e.g. "standings[home].form", "predictions.percent" or "h2h[0].goals".
+ *
+ * A reference is a dataset name followed by property names and bracket selectors.
+ * [home]/[away] pick the team's row(s) from a list (by team ID), a number picks by index.
+ */
+
+// Citations kept per insight or section
+const MAX_SOURCES = 5;
+
+type Segment = { kind: 'key'; name: string } | { kind: 'select'; value: string };
+
+function parseReference(reference: string): Segment[] | null {
+  const segments: Segment[] = [];
+  const pattern = /\.?([A-Za-z_][\w]*)|\[([^\]]+)\]/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < reference.length && (match = pattern.exec(reference))) {
+    segments.push(match[1] !== undefined
+      ? { kind: 'key', name: match[1] }
+      : { kind: 'select', value: match[2].trim() });
+  }
+
+  // Leftover characters mean the reference isn't well-formed
+  if (pattern.lastIndex !== reference.length || segments[0]?.kind !== 'key') return null;
+  return segments;
+}
+
+function teamIdOf(row: unknown): number | undefined {
+  const team = (row as { team?: { id?: unknown } } | null)?.team;
+  return typeof team?.id === 'number' ? team.id : undefined;
+}
+
+function select(value: unknown, selector: string, teamIds: Record<'home' | 'away', number | undefined>): unknown {
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(selector)) return value[Number(selector)];
+    if (selector === 'home' || selector === 'away') {
+      const rows = value.filter((row) => teamIdOf(row) === teamIds[selector]);
+      return rows.length === 1 ? rows[0] : rows.length > 0 ? rows : undefined;
+    }
+    return undefined;
+  }
+  if (value && typeof value === 'object') {
+    return (value as Record<string, unknown>)[selector];
+  }
+  return undefined;
+}
+
+/**
+ * The value a reference points at, or undefined if it doesn't resolve
+ */
+export function resolveCitation(data: CollectedData, reference: string): unknown {
+  const segments = parseReference(reference.trim());
+  if (!segments) return undefined;
+
+  const teamIds = { home: data.fixture?.teams.home.id, away: data.fixture?.teams.away.id };
+  let value: unknown = buildSignalData(data, COLLECTED_DATA_KEYS);
+
+  for (const segment of segments) {
+    if (value === undefined || value === null) return undefined;
+    value = segment.kind === 'key'
+      ? (typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[segment.name] : undefined)
+      : select(value, segment.value, teamIds);
+  }
+  return value ?? undefined;
+}
+
+/**
+ * Drop references that don't resolve against the collected data (models do invent paths),
+ * de-duplicate and cap the list
+ */
+export function filterCitations(references: readonly string[] | undefined, data: CollectedData): string[] {
+  const valid: string[] = [];
+  for (const reference of references ?? []) {
+    const trimmed = reference.trim();
+    if (!valid.includes(trimmed) && resolveCitation(data, trimmed) !== undefined) {
+      valid.push(trimmed);
+    }
+  }
+  return valid.slice(0, MAX_SOURCES);
+}
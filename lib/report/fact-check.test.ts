@@ -0,0 +1,160 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CollectedData } from '../session/types';
+import { FinalReportOutput } from '../llm/schemas';
+import { factCheckFinalReport, factCheckTexts } from './fact-check';
+import { LocaleId, getLocaleProfile } from './locales';
+
+// Chelsea (home): 3rd, 18 points. Arsenal (away): 4th, 18 points.
+// Predictions 35% / 30% / 35%; last meetings 1-1, 5-0, 2-2, 3-1, 0-1.
+const { collectedData: data } = JSON.parse(
+  readFileSync(path.join(process.cwd(), 'eval/fixtures/1208125.json'), 'utf8')
+) as { collectedData: CollectedData };
+
+function check(text: string, mode: 'rewrite' | 'flag' = 'rewrite') {
+  const { texts, result } = factCheckTexts([text], data, getLocaleProfile('en'), mode);
+  return { text: texts[0], result: result! };
+}
+
+describe('factCheckTexts', () => {
+  it('accepts claims that match the data', () => {
+    const { text, result } = check('Chelsea sit 3rd with 18 points, level with 4th-placed Arsenal.');
+    expect(text).toBe('Chelsea sit 3rd with 18 points, level with 4th-placed Arsenal.');
+    expect(result).toEqual({ verified: true, checked: 3, issues: [] });
+  });
+
+  it('rewrites wrong positions and points for the team they are attributed to', () => {
+    const { text, result } = check('Chelsea sit 5th in the table with 20 points. Arsenal are in 1st place.');
+    expect(text).toBe('Chelsea sit 3rd in the table with 18 points. Arsenal are in 4th place.');
+    expect(result.verified).toBe(true);
+    expect(result.issues).toEqual([
+      { kind: 'position', claim: '5th', expected: '3rd', action: 'corrected' },
+      { kind: 'points', claim: '20 points', expected: '18 points', action: 'corrected' },
+      { kind: 'position', claim: '1st', expected: '4th', action: 'corrected' },
+    ]);
+  });
+
+  it('only flags in flag mode', () => {
+    const { text, result } = check('Chelsea sit 5th in the table.', 'flag');
+    expect(text).toBe('Chelsea sit 5th in the table.');
+    expect(result.verified).toBe(false);
+    expect(result.issues).toEqual([{ kind: 'position', claim: '5th', expected: '3rd', action: 'flagged' }]);
+  });
+
+  it('ignores points gaps', () => {
+    expect(check('Chelsea are 3 points clear of the drop and won by 2 points.').result.checked).toBe(0);
+  });
+
+  it('checks goals against every known total and flags misses without rewriting', () => {
+    expect(check('Chelsea have scored 21 this season.').result).toMatchObject({ verified: true, checked: 1 });
+
+    const { text, result } = check('Chelsea have conceded 30 this season.');
+    expect(text).toBe('Chelsea have conceded 30 this season.');
+    expect(result.verified).toBe(false);
+    expect(result.issues[0]).toMatchObject({ kind: 'goals', action: 'flagged' });
+  });
+
+  it('matches form strings in either direction', () => {
+    expect(check("Chelsea's recent form reads D-W-D-W-L.").result).toMatchObject({ verified: true, checked: 1 });
+    expect(check("Chelsea's recent form reads LWDWD.").result).toMatchObject({ verified: true, checked: 1 });
+    expect(check("Chelsea's recent form reads LLLLL.").result.verified).toBe(false);
+  });
+
+  it('only reads scorelines as H2H results when the sentence is about past meetings', () => {
+    expect(check('The last meeting ended 1-1.').result).toMatchObject({ verified: true, checked: 1 });
+    expect(check('Their previous meetings include a 4-0 win.').result.issues[0]).toMatchObject({
+      kind: 'h2h',
+      claim: '4-0',
+      action: 'flagged',
+    });
+    expect(check('Chelsea line up 4-2-3-1 with a back 4-0 lead unlikely.').result.checked).toBe(0);
+  });
+
+  it('corrects outcome probabilities but leaves match statistics alone', () => {
+    const { text, result } = check('Chelsea have a 50% chance of victory, and a draw is 30% likely.');
+    expect(text).toBe('Chelsea have a 35% chance of victory, and a draw is 30% likely.');
+    expect(result).toMatchObject({ verified: true, checked: 2 });
+
+    expect(check('Chelsea win the ball back often and average 60% possession.').result.checked).toBe(0);
+  });
+
+  it('returns a null result when checking is off or there is no fixture', () => {
+    expect(factCheckTexts(['Chelsea sit 5th.'], data, undefined, 'off')).toEqual({ texts: ['Chelsea sit 5th.'], result: null });
+    expect(factCheckTexts(['Chelsea sit 5th.'], {}, undefined, 'rewrite')).toEqual({ texts: ['Chelsea sit 5th.'], result: null });
+  });
+});
+
+describe('factCheckTexts in other languages', () => {
+  function checkIn(localeId: LocaleId, text: string) {
+    const { texts, result } = factCheckTexts([text], data, getLocaleProfile(localeId), 'rewrite');
+    return { text: texts[0], result: result! };
+  }
+
+  it.each<[LocaleId, string, string]>([
+    [
+      'es',
+      'Chelsea marcha 5.º en la tabla con 20 puntos. Arsenal ocupa el 1.º puesto.',
+      'Chelsea marcha 3.º en la tabla con 18 puntos. Arsenal ocupa el 4.º puesto.',
+    ],
+    [
+      'pt',
+      'O Chelsea está em 5º lugar com 20 pontos, e o Arsenal é o 1º colocado.',
+      'O Chelsea está em 3º lugar com 18 pontos, e o Arsenal é o 4º colocado.',
+    ],
+    [
+      'vi',
+      'Chelsea đứng thứ 5 với 20 điểm, còn Arsenal xếp hạng 1.',
+      'Chelsea đứng thứ 3 với 18 điểm, còn Arsenal xếp hạng 4.',
+    ],
+  ])('corrects positions and points written in %s', (localeId, text, corrected) => {
+    const { text: checked, result } = checkIn(localeId, text);
+    expect(checked).toBe(corrected);
+    expect(result).toMatchObject({ verified: true, checked: 3 });
+    expect(result.issues.map((issue) => issue.kind).sort()).toEqual(['points', 'position', 'position']);
+  });
+
+  it('reads Spanish gaps, goals, H2H results and probabilities', () => {
+    expect(checkIn('es', 'Chelsea está a 3 puntos del líder.').result.checked).toBe(0);
+    expect(checkIn('es', 'Chelsea ha marcado 21 goles.').result).toMatchObject({ verified: true, checked: 1 });
+    expect(checkIn('es', 'Chelsea ha encajado 30 esta temporada.').result.issues[0]).toMatchObject({
+      kind: 'goals',
+      action: 'flagged',
+    });
+    expect(checkIn('es', 'El último enfrentamiento terminó 1-1.').result).toMatchObject({ verified: true, checked: 1 });
+    expect(checkIn('es', 'Los precedentes incluyen un 4-0.').result.issues[0]).toMatchObject({ kind: 'h2h', action: 'flagged' });
+
+    const { text, result } = checkIn('es', 'Chelsea tiene un 50% de probabilidad de victoria y el empate un 30%.');
+    expect(text).toBe('Chelsea tiene un 35% de probabilidad de victoria y el empate un 30%.');
+    expect(result).toMatchObject({ verified: true, checked: 2 });
+  });
+
+  it('reads Vietnamese H2H results and probabilities', () => {
+    expect(checkIn('vi', 'Lần gặp nhau gần nhất kết thúc với tỷ số 1-1.').result).toMatchObject({ verified: true, checked: 1 });
+    expect(checkIn('vi', 'Chelsea có 50% khả năng thắng.').text).toBe('Chelsea có 35% khả năng thắng.');
+    expect(checkIn('vi', 'Chelsea kiểm soát bóng 60% và có khả năng thắng.').result.checked).toBe(0);
+  });
+});
+
+describe('factCheckFinalReport', () => {
+  it('checks each section on its own and the talking points as a group', () => {
+    const report: FinalReportOutput = {
+      title: 'Chelsea vs Arsenal',
+      subtitle: 'Premier League',
+      sections: [
+        { title: 'Table', content: 'Chelsea sit 5th in the table.', emoji: '📊', sources: [] },
+        { title: 'Preview', content: 'A London derby at Stamford Bridge.', emoji: '⚽', sources: [] },
+      ],
+      quickTalkingPoints: ['Arsenal are in 4th place', 'Chelsea have scored 21 this season'],
+    };
+
+    const { report: checked, sectionChecks, talkingPointsCheck } = factCheckFinalReport(report, data, undefined, 'rewrite');
+
+    expect(checked.sections.map((section) => section.content)).toEqual([
+      'Chelsea sit 3rd in the table.',
+      'A London derby at Stamford Bridge.',
+    ]);
+    expect(sectionChecks.map((result) => result?.checked)).toEqual([1, 0]);
+    expect(talkingPointsCheck).toEqual({ verified: true, checked: 2, issues: [] });
+  });
+});
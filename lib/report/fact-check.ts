@@ -0,0 +1,416 @@
+import { CollectedData } from '../session/types';
+import { FinalReportOutput } from '../llm/schemas';
+import { FactCheckTerms, LocaleProfile, getLocaleProfile } from './locales';
+
+/**
+ * Rule-based verification of the numbers an LLM wrote against the CollectedData it was given.
+ * Extracts claims about league positions, points, goals, form strings, H2H scores and
+ * win/draw percentages, attributes each to a team and compares it with the API data.
+ * Claims are read with the report language's terms (LocaleProfile.factCheck).
+ *
+ * FACT_CHECK_MODE: rewrite (default, fix claims with a single correct value) | flag | off
+ */
+
+export type FactCheckMode = 'rewrite' | 'flag' | 'off';
+
+const FACT_CHECK_MODES: readonly FactCheckMode[] = ['rewrite', 'flag', 'off'];
+
+export type ClaimKind = 'position' | 'points' | 'goals' | 'form' | 'h2h' | 'probability';
+
+export interface FactCheckIssue {
+  kind: ClaimKind;
+  // The claim as written
+  claim: string;
+  // What the collected data says
+  expected: string;
+  action: 'corrected' | 'flagged';
+}
+
+export interface FactCheckResult {
+  // No unsupported claims left in the text
+  verified: boolean;
+  // Claims that could be compared with collected data
+  checked: number;
+  issues: FactCheckIssue[];
+}
+
+type Side = 'home' | 'away';
+
+interface TeamFacts {
+  aliases: string[];
+  rank?: number;
+  points?: number;
+  goalsFor: Set<number>;
+  goalsAgainst: Set<number>;
+  forms: string[];
+  winPercent?: number;
+}
+
+interface MatchFacts {
+  home: TeamFacts;
+  away: TeamFacts;
+  drawPercent?: number;
+  h2hScores: Array<[number, number]>;
+}
+
+interface Claim {
+  kind: ClaimKind;
+  // Sentence-relative span of the value that a correction replaces
+  start: number;
+  end: number;
+  claim: string;
+  // The number claimed (unused for form strings and scorelines)
+  value: number;
+  side: Side | null;
+}
+
+interface Verdict {
+  supported: boolean;
+  expected: string;
+  // Replacement for the claim's value span, when there is exactly one right answer
+  correction?: string;
+}
+
+const GENERIC_NAME_WORDS = new Set(['club', 'football', 'calcio', 'sport', 'sporting']);
+
+/**
+ * FACT_CHECK_MODE from the environment
+ */
+export function getFactCheckMode(): FactCheckMode {
+  const value = process.env.FACT_CHECK_MODE;
+  if (!value) return 'rewrite';
+
+  if (!(FACT_CHECK_MODES as readonly string[]).includes(value)) {
+    throw new Error(`FACT_CHECK_MODE must be one of: ${FACT_CHECK_MODES.join(', ')} (got "${value}")`);
+  }
+  return value as FactCheckMode;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function firstNumber(text: string): number {
+  return Number.parseInt(text.match(/\d+/)![0], 10);
+}
+
+function parsePercent(value: string | undefined): number | undefined {
+  const parsed = Number.parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Names a team is referred to by: the full name plus any distinctive word of it
+ * ("Wolverhampton Wanderers" -> "Wolverhampton", "Wanderers")
+ */
+function teamAliases(name: string, otherName: string): string[] {
+  const otherWords = new Set(otherName.toLowerCase().split(/\s+/));
+  const words = name
+    .split(/\s+/)
+    .filter((word) => word.length >= 4)
+    .filter((word) => !GENERIC_NAME_WORDS.has(word.toLowerCase()) && !otherWords.has(word.toLowerCase()));
+  return [name, ...words];
+}
+
+function buildTeamFacts(data: CollectedData, side: Side): TeamFacts {
+  const fixture = data.fixture!;
+  const team = fixture.teams[side];
+  const other = fixture.teams[side === 'home' ? 'away' : 'home'];
+
+  const facts: TeamFacts = {
+    aliases: teamAliases(team.name, other.name),
+    goalsFor: new Set(),
+    goalsAgainst: new Set(),
+    forms: [],
+  };
+
+  const standing = data.standings?.flat().find((entry) => entry.team.id === team.id);
+  if (standing) {
+    facts.rank = standing.rank;
+    facts.points = standing.points;
+    if (standing.form) facts.forms.push(standing.form);
+    for (const record of [standing.all, standing.home, standing.away]) {
+      facts.goalsFor.add(record.goals.for);
+      facts.goalsAgainst.add(record.goals.against);
+    }
+  }
+
+  const prediction = data.predictions;
+  if (prediction) {
+    const teamData = prediction.teams[side];
+    if (teamData.last_5?.form) facts.forms.push(teamData.last_5.form);
+    if (teamData.league?.form) facts.forms.push(teamData.league.form);
+    if (teamData.last_5?.goals) {
+      facts.goalsFor.add(teamData.last_5.goals.for.total);
+      facts.goalsAgainst.add(teamData.last_5.goals.against.total);
+    }
+    const leagueGoals = teamData.league?.goals;
+    if (leagueGoals) {
+      for (const value of Object.values(leagueGoals.for.total)) facts.goalsFor.add(value);
+      for (const value of Object.values(leagueGoals.against.total)) facts.goalsAgainst.add(value);
+    }
+    facts.winPercent = parsePercent(prediction.predictions.percent[side]);
+  }
+
+  return facts;
+}
+
+function buildMatchFacts(data: CollectedData): MatchFacts | null {
+  if (!data.fixture) return null;
+
+  const h2hScores: Array<[number, number]> = [];
+  for (const match of data.h2h ?? []) {
+    if (match.goals.home !== null && match.goals.away !== null) {
+      h2hScores.push([match.goals.home, match.goals.away]);
+    }
+  }
+
+  return {
+    home: buildTeamFacts(data, 'home'),
+    away: buildTeamFacts(data, 'away'),
+    drawPercent: parsePercent(data.predictions?.predictions.percent.draw),
+    h2hScores,
+  };
+}
+
+/**
+ * Team each position in the sentence refers to: the nearest mention before it,
+ * otherwise the first one after it (or always the next one, for "3rd-placed Arsenal")
+ */
+function createAttributor(sentence: string, facts: MatchFacts): (position: number, next?: boolean) => Side | null {
+  const mentions: Array<{ index: number; side: Side }> = [];
+  for (const side of ['home', 'away'] as const) {
+    for (const alias of facts[side].aliases) {
+      const pattern = new RegExp(`\\b${escapeRegExp(alias)}\\b`, 'gi');
+      for (const match of sentence.matchAll(pattern)) {
+        mentions.push({ index: match.index, side });
+      }
+    }
+  }
+  mentions.sort((a, b) => a.index - b.index);
+
+  return (position, next = false) => {
+    const after = mentions.find((mention) => mention.index > position)?.side ?? null;
+    if (next) return after;
+    return mentions.filter((mention) => mention.index < position).pop()?.side ?? after;
+  };
+}
+
+function extractClaims(sentence: string, facts: MatchFacts, terms: FactCheckTerms): Claim[] {
+  const attribute = createAttributor(sentence, facts);
+  const claims: Claim[] = [];
+  const around = (match: RegExpMatchArray, before: number, after: number) => ({
+    before: sentence.slice(Math.max(0, match.index! - before), match.index),
+    after: sentence.slice(match.index! + match[0].length, match.index! + match[0].length + after),
+  });
+
+  // League position: "sit 3rd", "in 5th place"
+  for (const match of sentence.matchAll(terms.ordinal)) {
+    const { before, after } = around(match, 25, 30);
+    // "3rd-placed Arsenal" describes the team that follows
+    const describesNext = terms.positionOfNext?.test(after) ?? false;
+    const isPosition = describesNext || terms.positionAfter.test(after) || terms.positionBefore.test(before);
+    if (isPosition) {
+      const side = attribute(match.index, describesNext);
+      claims.push({ kind: 'position', start: match.index, end: match.index + match[0].length, claim: match[0], value: firstNumber(match[0]), side });
+    }
+  }
+
+  // Points total (not gaps: "3 points clear", "by 2 points")
+  for (const match of sentence.matchAll(terms.points)) {
+    const { before, after } = around(match, 20, 15);
+    if (terms.pointsGapAfter.test(after) || terms.pointsGapBefore.test(before)) continue;
+    const value = firstNumber(match[0]);
+    const start = match.index + match[0].indexOf(String(value));
+    claims.push({ kind: 'points', start, end: start + String(value).length, claim: match[0], value, side: attribute(match.index) });
+  }
+
+  // Goals scored/conceded: "scored 24", "12 goals conceded"
+  for (const match of sentence.matchAll(terms.goals)) {
+    claims.push({ kind: 'goals', start: match.index, end: match.index + match[0].length, claim: match[0], value: firstNumber(match[0]), side: attribute(match.index) });
+  }
+
+  // Form strings: "WWDLW", "W-D-L"
+  for (const match of sentence.matchAll(/\b[WDL](?:[-\s]?[WDL]){2,9}\b/g)) {
+    claims.push({ kind: 'form', start: match.index, end: match.index + match[0].length, claim: match[0], value: 0, side: attribute(match.index) });
+  }
+
+  // H2H scorelines, only where the sentence is about previous meetings
+  if (terms.h2h.test(sentence)) {
+    for (const match of sentence.matchAll(/(?<![\d-]|\d\.)(\d{1,2})\s?[-–]\s?(\d{1,2})(?![\d%]|\.\d|\s?[-–]\s?\d)/g)) {
+      claims.push({ kind: 'h2h', start: match.index, end: match.index + match[0].length, claim: match[0], value: 0, side: null });
+    }
+  }
+
+  // Outcome probabilities: "a 45% chance of victory"
+  if (terms.probability.test(sentence) && !terms.stats.test(sentence)) {
+    for (const match of sentence.matchAll(/(\d{1,3}(?:\.\d+)?)\s?%/g)) {
+      // "won 60% of their games" is a record, not a prediction
+      if (terms.recordAfter.test(around(match, 0, 25).after)) continue;
+      claims.push({ kind: 'probability', start: match.index, end: match.index + match[1].length, claim: match[0], value: Number.parseFloat(match[1]), side: attribute(match.index) });
+    }
+  }
+
+  return claims;
+}
+
+function normalizeForm(form: string): string {
+  return form.replace(/[-\s]/g, '').toUpperCase();
+}
+
+/**
+ * Compare a claim with the facts. Returns null when there is no data to check it against.
+ */
+function verifyClaim(claim: Claim, sentence: string, facts: MatchFacts, terms: FactCheckTerms): Verdict | null {
+  const team = claim.side ? facts[claim.side] : null;
+
+  switch (claim.kind) {
+    case 'position': {
+      if (team?.rank === undefined) return null;
+      const expected = terms.formatOrdinal(team.rank);
+      return { supported: claim.value === team.rank, expected, correction: expected };
+    }
+
+    case 'points': {
+      if (team?.points === undefined) return null;
+      return { supported: claim.value === team.points, expected: `${team.points} points`, correction: String(team.points) };
+    }
+
+    case 'goals': {
+      if (!team) return null;
+      const conceded = terms.conceded.test(claim.claim);
+      const known = conceded ? team.goalsAgainst : team.goalsFor;
+      if (known.size === 0) return null;
+      const values = [...known].sort((a, b) => a - b).join(', ');
+      return { supported: known.has(claim.value), expected: `goals ${conceded ? 'conceded' : 'scored'}: ${values}` };
+    }
+
+    case 'form': {
+      const forms = team ? team.forms : [...facts.home.forms, ...facts.away.forms];
+      if (forms.length === 0) return null;
+      const claimed = normalizeForm(claim.claim);
+      // API-Football doesn't document the order, so accept either direction
+      const supported = forms.some((form) =>
+        form.includes(claimed) || [...form].reverse().join('').includes(claimed)
+      );
+      return { supported, expected: `form ${forms[0]}` };
+    }
+
+    case 'h2h': {
+      if (facts.h2hScores.length === 0) return null;
+      const [a, b] = claim.claim.split(/\s?[-–]\s?/).map((value) => Number.parseInt(value, 10));
+      const supported = facts.h2hScores.some(([home, away]) => (home === a && away === b) || (home === b && away === a));
+      const recent = facts.h2hScores.slice(0, 5).map(([home, away]) => `${home}-${away}`);
+      return { supported, expected: `recent H2H scores: ${recent.join(', ')}` };
+    }
+
+    case 'probability': {
+      const claimed = claim.value;
+      const context = sentence.slice(Math.max(0, claim.start - 25), claim.end + 25);
+      const expected = terms.draw.test(context) ? facts.drawPercent : team?.winPercent;
+
+      if (expected === undefined) {
+        // Unattributed: accept any of the predicted outcome percentages
+        const known = [facts.home.winPercent, facts.drawPercent, facts.away.winPercent]
+          .filter((value): value is number => value !== undefined);
+        if (known.length === 0) return null;
+        return {
+          supported: known.some((value) => Math.abs(value - claimed) <= 1),
+          expected: `predictions: ${known.map((value) => `${value}%`).join(' / ')}`,
+        };
+      }
+      return { supported: Math.abs(expected - claimed) <= 1, expected: `${expected}%`, correction: String(expected) };
+    }
+  }
+}
+
+interface TextCheck {
+  text: string;
+  checked: number;
+  issues: FactCheckIssue[];
+}
+
+function checkText(text: string, facts: MatchFacts, terms: FactCheckTerms, mode: FactCheckMode): TextCheck {
+  const replacements: Array<{ start: number; end: number; value: string }> = [];
+  const issues: FactCheckIssue[] = [];
+  let checked = 0;
+
+  // Sentences, keeping decimals ("2.5") and ordinals ("3.º", "1.er") intact
+  for (const sentenceMatch of text.matchAll(/(?:[^.!?\n]|\.(?=\d|[ºª]|er\b))+[.!?]?/g)) {
+    const sentence = sentenceMatch[0];
+    for (const claim of extractClaims(sentence, facts, terms)) {
+      const verdict = verifyClaim(claim, sentence, facts, terms);
+      if (!verdict) continue;
+
+      checked++;
+      if (verdict.supported) continue;
+
+      const correct = mode === 'rewrite' && verdict.correction !== undefined;
+      issues.push({ kind: claim.kind, claim: claim.claim, expected: verdict.expected, action: correct ? 'corrected' : 'flagged' });
+      if (correct) {
+        const offset = sentenceMatch.index;
+        replacements.push({ start: offset + claim.start, end: offset + claim.end, value: verdict.correction! });
+      }
+    }
+  }
+
+  let corrected = text;
+  for (const { start, end, value } of replacements.sort((a, b) => b.start - a.start)) {
+    corrected = corrected.slice(0, start) + value + corrected.slice(end);
+  }
+
+  return { text: corrected, checked, issues };
+}
+
+/**
+ * Fact-check a set of texts (e.g. a signal's insights and narrative), written in the
+ * locale's language, as one unit.
+ * Returns the texts unchanged and a null result when checking is off or there is no fixture data.
+ */
+export function factCheckTexts(
+  texts: string[],
+  data: CollectedData,
+  locale: LocaleProfile = getLocaleProfile(),
+  mode: FactCheckMode = getFactCheckMode()
+): { texts: string[]; result: FactCheckResult | null } {
+  const facts = mode === 'off' ? null : buildMatchFacts(data);
+  if (!facts) return { texts, result: null };
+
+  const checks = texts.map((text) => checkText(text, facts, locale.factCheck, mode));
+  const issues = checks.flatMap((check) => check.issues);
+
+  return {
+    texts: checks.map((check) => check.text),
+    result: {
+      verified: issues.every((issue) => issue.action === 'corrected'),
+      checked: checks.reduce((sum, check) => sum + check.checked, 0),
+      issues,
+    },
+  };
+}
+
+/**
+ * Fact-check each section of a synthesized final report, and the talking points as a group
+ */
+export function factCheckFinalReport(
+  report: FinalReportOutput,
+  data: CollectedData,
+  locale: LocaleProfile = getLocaleProfile(),
+  mode: FactCheckMode = getFactCheckMode()
+): { report: FinalReportOutput; sectionChecks: Array<FactCheckResult | null>; talkingPointsCheck: FactCheckResult | null } {
+  const sectionChecks: Array<FactCheckResult | null> = [];
+
+  const sections = (report.sections || []).map((section) => {
+    const { texts: [content], result } = factCheckTexts([section.content], data, locale, mode);
+    sectionChecks.push(result);
+    return { ...section, content };
+  });
+
+  const talkingPoints = factCheckTexts(report.quickTalkingPoints || [], data, locale, mode);
+
+  return {
+    report: { ...report, sections, quickTalkingPoints: talkingPoints.texts },
+    sectionChecks,
+    talkingPointsCheck: talkingPoints.result,
+  };
+}
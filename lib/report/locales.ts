@@ -0,0 +1,414 @@
+export type LocaleId = 'en' | 'es' | 'pt' | 'vi';
+
+export interface FallbackMatch {
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  venue: string | null;
+}
+
+/**
+ * Texts the pipeline writes itself (fallbacks and markdown chrome) rather than the model
+ */
+export interface LocaleMessages {
+  signalIncomplete: { insight: string; narrative: (signal: string) => string };
+  signalFailed: { insights: (signal: string) => string[]; narrative: (signal: string) => string };
+  categoryPending: { content: (category: string) => string; talkingPoint: (category: string) => string };
+  categoryFailed: { content: (category: string) => string; talkingPoint: (category: string) => string };
+  finalFallback: (match: FallbackMatch) => string;
+  markdown: { quickTalkingPoints: string; sources: string; generatedOn: (date: string) => string };
+}
+
+/**
+ * How reports in the language state the numbers the fact checker verifies (lib/report/fact-check.ts).
+ * Claim patterns are global; the claim's value is the first number they match. Context patterns
+ * are tested against the text just before or after a claim, or against the whole sentence.
+ * Scorelines, percentages and W/D/L form strings are read the same in every language.
+ */
+export interface FactCheckTerms {
+  // League positions ("3rd"), counted only with the position context below
+  ordinal: RegExp;
+  // Replacement for a wrong ordinal match
+  formatOrdinal: (position: number) => string;
+  // ...followed by "place", "in the table"
+  positionAfter: RegExp;
+  // ...preceded by "sits", "ranked"
+  positionBefore: RegExp;
+  // ...describing the team that follows ("3rd-placed Arsenal")
+  positionOfNext?: RegExp;
+  // Points totals ("18 points"), but not gaps ("3 points clear", "by 2 points")
+  points: RegExp;
+  pointsGapAfter: RegExp;
+  pointsGapBefore: RegExp;
+  // Goals scored or conceded ("scored 24", "12 goals conceded"); `conceded` tells them apart
+  goals: RegExp;
+  conceded: RegExp;
+  // A sentence about previous meetings, whose scorelines are H2H results
+  h2h: RegExp;
+  // A sentence about outcome probabilities, unless it is about match statistics
+  probability: RegExp;
+  stats: RegExp;
+  // A draw, near a percentage
+  draw: RegExp;
+  // A percentage that is a record, not a prediction ("60% of their games")
+  recordAfter: RegExp;
+}
+
+export interface LocaleProfile {
+  id: LocaleId;
+  // Native name, for pickers
+  name: string;
+  // Output language as named in prompts
+  language: string;
+  // BCP 47 tag for date formatting
+  dateLocale: string;
+  messages: LocaleMessages;
+  factCheck: FactCheckTerms;
+}
+
+function englishOrdinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+export const DEFAULT_LOCALE_ID: LocaleId = 'en';
+
+export const LOCALE_PROFILES: Record<LocaleId, LocaleProfile> = {
+  en: {
+    id: 'en',
+    name: 'English',
+    language: 'English',
+    dateLocale: 'en-GB',
+    messages: {
+      signalIncomplete: {
+        insight: 'Data analysis in progress',
+        narrative: (signal) =>
+          `Analysis for ${signal} is being processed. Key data points are being evaluated to provide comprehensive insights.`,
+      },
+      signalFailed: {
+        insights: (signal) => [
+          `${signal} analysis encountered processing issues`,
+          'Data collection completed but synthesis pending',
+          'Manual review recommended for this section',
+        ],
+        narrative: (signal) =>
+          `The ${signal} analysis could not be fully completed due to processing constraints. The available data has been collected and is ready for manual review. Key metrics and statistics are available in the raw data.`,
+      },
+      categoryPending: {
+        content: (category) =>
+          `Analysis for ${category} is being processed. Data collection completed but synthesis is pending.`,
+        talkingPoint: (category) => `${category} analysis in progress`,
+      },
+      categoryFailed: {
+        content: (category) =>
+          `Analysis for ${category} encountered processing issues. Key data has been collected and is available for review.`,
+        talkingPoint: (category) => `${category} requires manual review`,
+      },
+      finalFallback: (match) => `# Match Report: ${match.homeTeam} vs ${match.awayTeam}
+
+## ⚠️ Report Generation Issue
+
+The automated report generation encountered technical difficulties. However, data collection was successful.
+
+### Match Details
+- **Competition**: ${match.league}
+- **Date**: ${match.date}
+- **Venue**: ${match.venue || 'TBD'}
+
+### Available Data
+All match data has been successfully collected including:
+- Team statistics
+- Player lineups and injuries
+- Head-to-head history
+- League standings
+- AI predictions
+
+Please regenerate the report or contact support if this issue persists.
+`,
+      markdown: {
+        quickTalkingPoints: 'Quick Talking Points',
+        sources: 'Sources',
+        generatedOn: (date) => `Report generated on ${date}`,
+      },
+    },
+    factCheck: {
+      ordinal: /\b\d{1,2}(?:st|nd|rd|th)\b/gi,
+      formatOrdinal: englishOrdinal,
+      positionAfter: /^[-\s]*(?:place|position|spot|in the (?:table|standings|league))\b/i,
+      positionBefore: /\b(?:sit|sits|sitting|lie|lies|lying|ranked|placed)\s+(?:in\s+)?(?:the\s+)?$/i,
+      positionOfNext: /^[-\s]placed\s/i,
+      points: /\b\d{1,3}\s*(?:points|pts)\b/gi,
+      pointsGapAfter: /^\s*(?:clear|behind|ahead|adrift|off|above|below|from|per|gap)\b/i,
+      pointsGapBefore: /\b(?:by|of|within|just|percentage)\s+$/i,
+      goals: /\b(?:scored|netted|conceded|shipped)\s+\d{1,3}\b|\b\d{1,3}\s+goals?\s+(?:scored|conceded)\b/gi,
+      conceded: /conceded|shipped/i,
+      h2h: /head[- ]to[- ]head|\bh2h\b|\bmeetings?\b|\bmet\b|\bencounters?\b|\blast time\b/i,
+      probability: /\b(?:win|wins|winning|victory|draw|chance|probabilit\w*|likel\w*|odds)\b/i,
+      stats: /possession|pass|shot|accuracy|conversion|tackle|duel|clean sheet/i,
+      draw: /\bdraw/i,
+      recordAfter: /^\s*of\s+(?:their|its|the|all)\b/i,
+    },
+  },
+  es: {
+    id: 'es',
+    name: 'Español',
+    language: 'Spanish (español)',
+    dateLocale: 'es-ES',
+    messages: {
+      signalIncomplete: {
+        insight: 'Análisis de datos en curso',
+        narrative: (signal) =>
+          `El análisis de ${signal} se está procesando. Se están evaluando los datos clave para ofrecer conclusiones completas.`,
+      },
+      signalFailed: {
+        insights: (signal) => [
+          `El análisis de ${signal} tuvo problemas de procesamiento`,
+          'Datos recopilados, síntesis pendiente',
+          'Se recomienda revisar esta sección manualmente',
+        ],
+        narrative: (signal) =>
+          `El análisis de ${signal} no pudo completarse por limitaciones de procesamiento. Los datos disponibles ya se han recopilado y están listos para una revisión manual. Las métricas y estadísticas clave están en los datos originales.`,
+      },
+      categoryPending: {
+        content: (category) =>
+          `El análisis de ${category} se está procesando. Los datos están recopilados, pero la síntesis está pendiente.`,
+        talkingPoint: (category) => `Análisis de ${category} en curso`,
+      },
+      categoryFailed: {
+        content: (category) =>
+          `El análisis de ${category} tuvo problemas de procesamiento. Los datos clave se han recopilado y están disponibles para su revisión.`,
+        talkingPoint: (category) => `${category} requiere revisión manual`,
+      },
+      finalFallback: (match) => `# Informe del partido: ${match.homeTeam} vs ${match.awayTeam}
+
+## ⚠️ Problema al generar el informe
+
+La generación automática del informe tuvo dificultades técnicas. Aun así, los datos se recopilaron correctamente.
+
+### Detalles del partido
+- **Competición**: ${match.league}
+- **Fecha**: ${match.date}
+- **Estadio**: ${match.venue || 'Por confirmar'}
+
+### Datos disponibles
+Se han recopilado todos los datos del partido, incluidos:
+- Estadísticas de los equipos
+- Alineaciones y lesiones
+- Historial de enfrentamientos
+- Clasificación de la liga
+- Predicciones de IA
+
+Vuelve a generar el informe o contacta con soporte si el problema persiste.
+`,
+      markdown: {
+        quickTalkingPoints: 'Claves rápidas',
+        sources: 'Fuentes',
+        generatedOn: (date) => `Informe generado el ${date}`,
+      },
+    },
+    factCheck: {
+      // "3.º", "3ª", "3er": only the number is checked and replaced
+      ordinal: /(?<!\d)\d{1,2}(?=\s?(?:\.?º|\.?ª|°|\.?er(?!\p{L})))/giu,
+      formatOrdinal: String,
+      positionAfter: /^\s?(?:\.?[ºª]|°|\.?er)?\s*(?:puesto|lugar|posición|de la (?:tabla|clasificación|liga))(?!\p{L})/iu,
+      positionBefore: /(?<!\p{L})(?:marcha|marchan|está|están|ocupa|ocupan|es|son|sitúa|situado|situada|quedó|queda|puesto|posición)\s+(?:en\s+)?(?:el\s+|la\s+)?(?:n\.?º\s*)?$/iu,
+      positionOfNext: /^\s?(?:\.?[ºª]|°)\s+clasificad[oa]\s+(?=\p{Lu})/u,
+      points: /(?<![\d.,])\d{1,3}\s*(?:puntos|pts|ptos)(?!\p{L})/giu,
+      pointsGapAfter: /^\s*(?:de ventaja|de diferencia|por (?:encima|debajo|delante|detrás)|menos|más|sobre|por partido)(?!\p{L})/iu,
+      pointsGapBefore: /(?<!\p{L})(?:a|por|ventaja de|diferencia de|distancia de|solo|sólo|apenas)\s+$/iu,
+      goals: /(?<!\p{L})(?:marcad[oa]s?|anotad[oa]s?|encajad[oa]s?|recibid[oa]s?)\s+\d{1,3}(?!\d)|(?<!\d)\d{1,3}\s+goles\s+(?:a favor|en contra|marcados|anotados|encajados|recibidos)(?!\p{L})/giu,
+      conceded: /encajad|recibid|en contra/i,
+      h2h: /cara a cara|\bh2h\b|enfrentamientos?|se enfrentaron|se midieron|precedentes?|última vez|historial/iu,
+      probability: /(?<!\p{L})(?:victoria|victorias|ganar|gane|triunfo|empate|empatar|probabilidad(?:es)?|probable|posibilidad(?:es)?|opciones|cuotas?)(?!\p{L})/iu,
+      stats: /posesión|pase|tiro|remate|precisión|efectividad|conversión|entrada|duelo|portería a cero|valla invicta/iu,
+      draw: /empat/i,
+      recordAfter: /^\s*de\s+(?:sus|los|las|todos|todas)(?!\p{L})/iu,
+    },
+  },
+  pt: {
+    id: 'pt',
+    name: 'Português',
+    language: 'Brazilian Portuguese (português do Brasil)',
+    dateLocale: 'pt-BR',
+    messages: {
+      signalIncomplete: {
+        insight: 'Análise dos dados em andamento',
+        narrative: (signal) =>
+          `A análise de ${signal} está sendo processada. Os dados principais estão sendo avaliados para oferecer conclusões completas.`,
+      },
+      signalFailed: {
+        insights: (signal) => [
+          `A análise de ${signal} teve problemas de processamento`,
+          'Dados coletados, síntese pendente',
+          'Recomenda-se revisar esta seção manualmente',
+        ],
+        narrative: (signal) =>
+          `A análise de ${signal} não pôde ser concluída por limitações de processamento. Os dados disponíveis já foram coletados e estão prontos para revisão manual. As principais métricas e estatísticas estão nos dados originais.`,
+      },
+      categoryPending: {
+        content: (category) =>
+          `A análise de ${category} está sendo processada. Os dados foram coletados, mas a síntese está pendente.`,
+        talkingPoint: (category) => `Análise de ${category} em andamento`,
+      },
+      categoryFailed: {
+        content: (category) =>
+          `A análise de ${category} teve problemas de processamento. Os dados principais foram coletados e estão disponíveis para revisão.`,
+        talkingPoint: (category) => `${category} precisa de revisão manual`,
+      },
+      finalFallback: (match) => `# Relatório da partida: ${match.homeTeam} x ${match.awayTeam}
+
+## ⚠️ Problema na geração do relatório
+
+A geração automática do relatório encontrou dificuldades técnicas. Mesmo assim, os dados foram coletados com sucesso.
+
+### Detalhes da partida
+- **Competição**: ${match.league}
+- **Data**: ${match.date}
+- **Estádio**: ${match.venue || 'A definir'}
+
+### Dados disponíveis
+Todos os dados da partida foram coletados, incluindo:
+- Estatísticas das equipes
+- Escalações e lesões
+- Histórico de confrontos
+- Classificação da liga
+- Previsões de IA
+
+Gere o relatório novamente ou entre em contato com o suporte se o problema continuar.
+`,
+      markdown: {
+        quickTalkingPoints: 'Pontos-chave rápidos',
+        sources: 'Fontes',
+        generatedOn: (date) => `Relatório gerado em ${date}`,
+      },
+    },
+    factCheck: {
+      // "3º", "3ª": only the number is checked and replaced
+      ordinal: /(?<!\d)\d{1,2}(?=\s?(?:\.?º|\.?ª|°))/giu,
+      formatOrdinal: String,
+      positionAfter: /^\s?(?:\.?[ºª]|°)?\s*(?:lugar|posição|colocad[oa]|da (?:tabela|classificação|liga))(?!\p{L})/iu,
+      positionBefore: /(?<!\p{L})(?:está|estão|ocupa|ocupam|é|são|aparece|aparecem|fica|ficou|figura|posição)\s+(?:em\s+|no\s+|na\s+)?(?:o\s+|a\s+)?$/iu,
+      positionOfNext: /^\s?(?:\.?[ºª]|°)\s+colocad[oa]\s+(?=\p{Lu})/u,
+      points: /(?<![\d.,])\d{1,3}\s*(?:pontos|pts)(?!\p{L})/giu,
+      pointsGapAfter: /^\s*(?:de vantagem|de diferença|à frente|atrás|acima|abaixo|a menos|a mais|por jogo)(?!\p{L})/iu,
+      pointsGapBefore: /(?<!\p{L})(?:a|por|vantagem de|diferença de|distância de|apenas|só)\s+$/iu,
+      goals: /(?<!\p{L})(?:marcou|marcaram|marcados|sofreu|sofreram|sofridos)\s+\d{1,3}(?!\d)|(?<!\d)\d{1,3}\s+gols\s+(?:marcados|pró|a favor|sofridos|contra)(?!\p{L})/giu,
+      conceded: /sofr|contra/i,
+      h2h: /confrontos?|frente a frente|\bh2h\b|se enfrentaram|encontros?|última vez|retrospecto|histórico/iu,
+      probability: /(?<!\p{L})(?:vitória|vitórias|vencer|vença|triunfo|empate|empatar|probabilidades?|provável|chances?|possibilidades?|odds)(?!\p{L})/iu,
+      stats: /posse|passe|chute|finaliza|precisão|aproveitamento|conversão|desarme|duelo|sem sofrer gols/iu,
+      draw: /empat/i,
+      recordAfter: /^\s*(?:de|dos|das)\s+(?:seus|suas|jogos|partidas|todos|todas)(?!\p{L})/iu,
+    },
+  },
+  vi: {
+    id: 'vi',
+    name: 'Tiếng Việt',
+    language: 'Vietnamese (tiếng Việt)',
+    dateLocale: 'vi-VN',
+    messages: {
+      signalIncomplete: {
+        insight: 'Đang phân tích dữ liệu',
+        narrative: (signal) =>
+          `Phân tích ${signal} đang được xử lý. Các số liệu chính đang được đánh giá để đưa ra nhận định đầy đủ.`,
+      },
+      signalFailed: {
+        insights: (signal) => [
+          `Phân tích ${signal} gặp sự cố khi xử lý`,
+          'Đã thu thập dữ liệu, đang chờ tổng hợp',
+          'Nên xem xét thủ công phần này',
+        ],
+        narrative: (signal) =>
+          `Không thể hoàn tất phân tích ${signal} do giới hạn xử lý. Dữ liệu hiện có đã được thu thập và sẵn sàng để xem xét thủ công. Các chỉ số và thống kê chính có trong dữ liệu gốc.`,
+      },
+      categoryPending: {
+        content: (category) =>
+          `Phân tích ${category} đang được xử lý. Dữ liệu đã được thu thập nhưng chưa tổng hợp xong.`,
+        talkingPoint: (category) => `Đang phân tích ${category}`,
+      },
+      categoryFailed: {
+        content: (category) =>
+          `Phân tích ${category} gặp sự cố khi xử lý. Dữ liệu chính đã được thu thập và sẵn sàng để xem xét.`,
+        talkingPoint: (category) => `${category} cần được xem xét thủ công`,
+      },
+      finalFallback: (match) => `# Báo cáo trận đấu: ${match.homeTeam} vs ${match.awayTeam}
+
+## ⚠️ Sự cố khi tạo báo cáo
+
+Quá trình tạo báo cáo tự động gặp sự cố kỹ thuật. Tuy nhiên, dữ liệu đã được thu thập thành công.
+
+### Thông tin trận đấu
+- **Giải đấu**: ${match.league}
+- **Ngày**: ${match.date}
+- **Sân vận động**: ${match.venue || 'Chưa xác định'}
+
+### Dữ liệu hiện có
+Toàn bộ dữ liệu trận đấu đã được thu thập, bao gồm:
+- Thống kê đội bóng
+- Đội hình và chấn thương
+- Lịch sử đối đầu
+- Bảng xếp hạng
+- Dự đoán của AI
+
+Vui lòng tạo lại báo cáo hoặc liên hệ bộ phận hỗ trợ nếu sự cố vẫn tiếp diễn.
+`,
+      markdown: {
+        quickTalkingPoints: 'Điểm nhấn nhanh',
+        sources: 'Nguồn',
+        generatedOn: (date) => `Báo cáo được tạo lúc ${date}`,
+      },
+    },
+    factCheck: {
+      // "thứ 3", "hạng 3": only the number is checked and replaced
+      ordinal: /(?<=(?<!\p{L})(?:thứ|hạng)\s+)\d{1,2}(?!\d)/giu,
+      formatOrdinal: String,
+      positionAfter: /^\s*(?:trên|ở|tại)?\s*(?:bảng xếp hạng|bxh)(?!\p{L})/iu,
+      positionBefore: /(?<!\p{L})(?:đứng|xếp|vị trí|hạng)\s+(?:thứ\s+)?$/iu,
+      points: /(?<![\d.,])\d{1,3}\s*điểm(?!\p{L})/giu,
+      pointsGapAfter: /^\s*(?:so với|mỗi trận)(?!\p{L})/iu,
+      pointsGapBefore: /(?<!\p{L})(?:hơn|kém|cách|chênh(?: lệch)?|thua|bỏ xa)\s+$/iu,
+      goals: /(?<!\p{L})(?:ghi(?: được)?|lọt lưới|thủng lưới)\s+\d{1,3}(?!\d)|(?<!\d)\d{1,3}\s+bàn\s+(?:thắng|thua)(?!\p{L})/giu,
+      conceded: /lọt lưới|thủng lưới|bàn thua/i,
+      h2h: /đối đầu|\bh2h\b|chạm trán|gặp nhau|lần gặp|lần trước/iu,
+      probability: /(?<!\p{L})(?:thắng|chiến thắng|hòa|hoà|khả năng|xác suất|cơ hội|tỷ lệ|tỉ lệ)(?!\p{L})/iu,
+      stats: /kiểm soát bóng|cầm bóng|chuyền|sút|chính xác|tranh chấp|tắc bóng|giữ sạch lưới/iu,
+      draw: /hòa|hoà/i,
+      recordAfter: /^\s*(?:số trận|các trận|trận)(?!\p{L})/iu,
+    },
+  },
+};
+
+export function isLocaleId(value: string): value is LocaleId {
+  return Object.prototype.hasOwnProperty.call(LOCALE_PROFILES, value);
+}
+
+/**
+ * Get a locale profile (default locale if omitted)
+ */
+export function getLocaleProfile(id: LocaleId = DEFAULT_LOCALE_ID): LocaleProfile {
+  return LOCALE_PROFILES[id];
+}
+
+/**
+ * Format a date in the locale's conventions (not the server's)
+ */
+export function formatLocaleDate(
+  date: string | number | Date,
+  locale: LocaleProfile,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }
+): string {
+  return new Intl.DateTimeFormat(locale.dateLocale, options).format(new Date(date));
+}
+
+export interface LocalePromptVariables {
+  language: string;
+}
+
+/**
+ * Template variables for the output language
+ */
+export function getLocalePromptVariables(locale: LocaleProfile): LocalePromptVariables {
+  return { language: locale.language };
+}
@@ -1,7 +1,31 @@
+import type { FactCheckResult } from './fact-check';
+
 export interface ReportSection {
   title: string;
   content: string;
   emoji: string;
+  // References into the collected data (lib/report/citations.ts)
+  sources: string[];
+  factCheck?: FactCheckResult;
+}
+
+export interface SignalSummary {
+  signalId: string;
+  title: string;
+  emoji: string;
+  confidence: number;
+}
+
+/**
+ * A category report as it fed into the final synthesis
+ */
+export interface CategorySummary {
+  categoryId: string;
+  title: string;
+  sections: ReportSection[];
+  talkingPoints: string[];
+  // Signals that produced a result, in blueprint order
+  signals: SignalSummary[];
 }
 
 export interface FinalReport {
@@ -9,5 +33,7 @@ export interface FinalReport {
   subtitle: string;
   sections: ReportSection[];
   quickTalkingPoints: string[];
+  talkingPointsFactCheck?: FactCheckResult;
+  categories: CategorySummary[];
   generatedAt: number;
 }
@@ -0,0 +1,117 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import { COLLECTED_DATA_KEYS, Session } from '../session/types';
+import { buildSignalData } from '../llm/utils/signal-data';
+
+/**
+ * Where a retrieved chunk came from (returned with chat replies)
+ */
+export interface RetrievalSource {
+  kind: 'report' | 'signal' | 'category' | 'data';
+  // Report section heading, partialReports/categoryReports key or a data reference
+  // such as "h2h[0]" (lib/report/citations.ts)
+  ref: string;
+  label: string;
+}
+
+export interface RetrievalChunk {
+  // Stable across rebuilds while the text is unchanged
+  id: string;
+  text: string;
+  source: RetrievalSource;
+}
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 150;
+
+const markdownSplitter = RecursiveCharacterTextSplitter.fromLanguage('markdown', {
+  chunkSize: CHUNK_SIZE,
+  chunkOverlap: CHUNK_OVERLAP,
+});
+const textSplitter = new RecursiveCharacterTextSplitter({ chunkSize: CHUNK_SIZE, chunkOverlap: CHUNK_OVERLAP });
+
+/**
+ * Split the markdown report at its "## " section headings, then to chunk size
+ */
+async function reportChunks(markdown: string): Promise<RetrievalChunk[]> {
+  const chunks: RetrievalChunk[] = [];
+  const sections = markdown.split(/^(?=## )/m);
+
+  for (const section of sections) {
+    const heading = section.match(/^#{1,3} (.+)$/m)?.[1].trim() ?? 'Report';
+    const parts = await markdownSplitter.splitText(section);
+    parts.forEach((text, i) => {
+      chunks.push({
+        id: `report:${heading}:${i}`,
+        text,
+        source: { kind: 'report', ref: heading, label: `Report: ${heading}` },
+      });
+    });
+  }
+  return chunks;
+}
+
+/**
+ * The compacted collected data (what the signal prompts see), one chunk per
+ * list row so each chunk maps to a citation reference
+ */
+async function dataChunks(session: Session): Promise<RetrievalChunk[]> {
+  const chunks: RetrievalChunk[] = [];
+  const data = buildSignalData(session.collectedData, COLLECTED_DATA_KEYS);
+
+  for (const [key, value] of Object.entries(data)) {
+    const entries: Array<[string, unknown]> = Array.isArray(value)
+      ? value.map((row, i) => [`${key}[${i}]`, row])
+      : [[key, value]];
+
+    for (const [ref, entry] of entries) {
+      const parts = await textSplitter.splitText(`${ref}: ${JSON.stringify(entry)}`);
+      parts.forEach((text, i) => {
+        chunks.push({ id: `data:${ref}:${i}`, text, source: { kind: 'data', ref, label: `Data: ${ref}` } });
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Everything chat can retrieve for a session: the final report, signal and
+ * category reports, and the collected data
+ */
+export async function buildSessionChunks(session: Session): Promise<RetrievalChunk[]> {
+  const chunks: RetrievalChunk[] = [];
+
+  if (session.finalReport) {
+    chunks.push(...(await reportChunks(session.finalReport)));
+  }
+
+  for (const [key, report] of Object.entries(session.partialReports)) {
+    const insights = report.insights
+      .map((insight) => `- ${insight.text}${insight.sources.length > 0 ? ` (${insight.sources.join(', ')})` : ''}`)
+      .join('\n');
+    chunks.push({
+      id: `signal:${key}`,
+      text: `${report.title}\n${report.narrative}\n${insights}`,
+      source: { kind: 'signal', ref: key, label: `Signal: ${report.title}` },
+    });
+  }
+
+  for (const [key, report] of Object.entries(session.categoryReports)) {
+    report.sections.forEach((section, i) => {
+      chunks.push({
+        id: `category:${key}:${i}`,
+        text: `${report.title} / ${section.title}\n${section.content}`,
+        source: { kind: 'category', ref: key, label: `${report.title}: ${section.title}` },
+      });
+    });
+    if (report.talkingPoints.length > 0) {
+      chunks.push({
+        id: `category:${key}:talking-points`,
+        text: `${report.title} talking points\n${report.talkingPoints.map((point) => `- ${point}`).join('\n')}`,
+        source: { kind: 'category', ref: key, label: `${report.title}: talking points` },
+      });
+    }
+  }
+
+  chunks.push(...(await dataChunks(session)));
+  return chunks;
+}
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { Embeddings, EmbeddingsInterface } from '@langchain/core/embeddings';
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+/**
+ * Embedding providers for chat retrieval. EMBEDDINGS_PROVIDER picks one (default local).
+ */
+
+export type EmbeddingProviderId = 'local' | 'openai';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  name: string;
+  // Identifies the vector space: indexes built with another model are rebuilt
+  getModel(): string;
+  // apiKey: a user's own key for this provider, used instead of the server key
+  createEmbeddings(apiKey?: string): EmbeddingsInterface;
+}
+
+const HASHED_DIMENSIONS = 512;
+
+/**
+ * Feature-hashed bag of words and word pairs. No model or network needed; good enough
+ * to match a question against report text and data that share its vocabulary.
+ */
+export class HashedEmbeddings extends Embeddings {
+  constructor(private readonly dimensions = HASHED_DIMENSIONS) {
+    super({});
+  }
+
+  private bucket(feature: string): { index: number; sign: number } {
+    const digest = createHash('md5').update(feature).digest();
+    return { index: digest.readUInt32BE(0) % this.dimensions, sign: digest[4] & 1 ? 1 : -1 };
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const { index, sign } = this.bucket(feature);
+      vector[index] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+const localProvider: EmbeddingProvider = {
+  id: 'local',
+  name: 'Local hashed embeddings',
+  getModel() {
+    return `hashed-${HASHED_DIMENSIONS}`;
+  },
+  createEmbeddings() {
+    return new HashedEmbeddings();
+  },
+};
+
+const openAIProvider: EmbeddingProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  getModel() {
+    return process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small';
+  },
+  createEmbeddings(apiKey) {
+    const key = apiKey || process.env.OPENAI_API_KEY;
+    if (!key) {
+      throw new Error('OPENAI_API_KEY environment variable is required for EMBEDDINGS_PROVIDER=openai');
+    }
+    return new OpenAIEmbeddings({ openAIApiKey: key, model: this.getModel() });
+  },
+};
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  local: localProvider,
+  openai: openAIProvider,
+};
+
+function isEmbeddingProviderId(value: string): value is EmbeddingProviderId {
+  return Object.prototype.hasOwnProperty.call(EMBEDDING_PROVIDERS, value);
+}
+
+/**
+ * The configured embedding provider (EMBEDDINGS_PROVIDER, default local)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const providerId = (process.env.EMBEDDINGS_PROVIDER || 'local').toLowerCase();
+  if (!isEmbeddingProviderId(providerId)) {
+    throw new Error(
+      `Unknown EMBEDDINGS_PROVIDER "${providerId}" (expected one of: ${Object.keys(EMBEDDING_PROVIDERS).join(', ')})`
+    );
+  }
+  return EMBEDDING_PROVIDERS[providerId];
+}
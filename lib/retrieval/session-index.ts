@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { Document } from '@langchain/core/documents';
+import { MemoryVectorStore } from 'langchain/vectorstores/memory';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { Session } from '../session/types';
+import { USER_API_KEY_PROVIDER } from '../llm/providers';
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings';
+import { buildSessionChunks, RetrievalChunk, RetrievalSource } from './chunks';
+
+export interface RetrievedChunk {
+  text: string;
+  source: RetrievalSource;
+  // Cosine similarity to the query
+  score: number;
+}
+
+interface SessionIndex {
+  model: string;
+  // Hash of every chunk id and text: the index is rebuilt when it changes
+  signature: string;
+  // Embeddings by text hash, reused across rebuilds (regenerating a section only embeds that section)
+  vectors: Map<string, number[]>;
+  store: MemoryVectorStore;
+}
+
+// Oldest indexes are dropped beyond this (sessions themselves expire after SESSION_TTL_MS)
+const MAX_INDEXED_SESSIONS = 100;
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Per-session in-memory vector index over the report and collected data,
+ * built on first use and kept up to date as the session changes
+ */
+class SessionRetrievalIndex {
+  private indexes: Map<string, SessionIndex> = new Map();
+
+  private async getIndex(
+    session: Session,
+    provider: EmbeddingProvider,
+    embeddings: EmbeddingsInterface
+  ): Promise<SessionIndex> {
+    const model = `${provider.id}/${provider.getModel()}`;
+    const chunks = await buildSessionChunks(session);
+    const signature = hash(chunks.map((chunk) => `${chunk.id}\n${chunk.text}`).join('\n\n'));
+
+    const existing = this.indexes.get(session.sessionId);
+    if (existing && existing.model === model && existing.signature === signature) {
+      return existing;
+    }
+
+    const vectors = existing?.model === model ? existing.vectors : new Map<string, number[]>();
+    const missing = [...new Set(chunks.map((chunk) => chunk.text))].filter((text) => !vectors.has(hash(text)));
+    if (missing.length > 0) {
+      const embedded = await embeddings.embedDocuments(missing);
+      missing.forEach((text, i) => vectors.set(hash(text), embedded[i]));
+    }
+
+    // Drop embeddings of text that is no longer in the session
+    const current = new Set(chunks.map((chunk) => hash(chunk.text)));
+    for (const key of vectors.keys()) {
+      if (!current.has(key)) vectors.delete(key);
+    }
+
+    const store = new MemoryVectorStore(embeddings);
+    await store.addVectors(
+      chunks.map((chunk) => vectors.get(hash(chunk.text))!),
+      chunks.map((chunk: RetrievalChunk) => new Document({ pageContent: chunk.text, metadata: { source: chunk.source } }))
+    );
+
+    const index: SessionIndex = { model, signature, vectors, store };
+    this.indexes.delete(session.sessionId);
+    this.indexes.set(session.sessionId, index);
+    if (this.indexes.size > MAX_INDEXED_SESSIONS) {
+      const [oldest] = this.indexes.keys();
+      this.indexes.delete(oldest);
+    }
+
+    console.log(`🔍 Indexed ${chunks.length} chunks for session ${session.sessionId} (${missing.length} embedded, ${model})`);
+    return index;
+  }
+
+  /**
+   * The k chunks most similar to the query. A user's own key pays for the embeddings
+   * when they come from its provider; vectors don't depend on the key, so indexes
+   * are shared whoever built them.
+   */
+  async search(session: Session, query: string, k: number, apiKey?: string): Promise<RetrievedChunk[]> {
+    const provider = getEmbeddingProvider();
+    const embeddings = provider.createEmbeddings(provider.id === USER_API_KEY_PROVIDER ? apiKey : undefined);
+    const index = await this.getIndex(session, provider, embeddings);
+    const results = await index.store.similaritySearchVectorWithScore(await embeddings.embedQuery(query), k);
+
+    return results.map(([document, score]) => ({
+      text: document.pageContent,
+      source: document.metadata.source as RetrievalSource,
+      score,
+    }));
+  }
+}
+
+export const retrievalIndex = new SessionRetrievalIndex();
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sessionApiKeys } from './api-key-store';
+
+// The TTL is read once, on import
+vi.hoisted(() => {
+  process.env.USER_API_KEY_TTL_MS = '60000';
+});
+
+describe('sessionApiKeys', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the bound key once, then forgets it', () => {
+    sessionApiKeys.bind('session-a', 'sk-user-a');
+
+    expect(sessionApiKeys.take('session-a')).toBe('sk-user-a');
+    expect(sessionApiKeys.take('session-a')).toBeNull();
+  });
+
+  it('keeps keys per session', () => {
+    sessionApiKeys.bind('session-b', 'sk-user-b');
+    sessionApiKeys.bind('session-c', 'sk-user-c');
+
+    expect(sessionApiKeys.take('session-c')).toBe('sk-user-c');
+    expect(sessionApiKeys.take('session-b')).toBe('sk-user-b');
+  });
+
+  it('does not hold the key in plain text', () => {
+    sessionApiKeys.bind('session-d', 'sk-plaintext-check');
+
+    const stored = JSON.stringify((sessionApiKeys as unknown as { keys: Map<string, unknown> }).keys.get('session-d'));
+    expect(stored).not.toContain('sk-plaintext-check');
+    expect(stored).not.toContain(Buffer.from('sk-plaintext-check').toString('hex'));
+    sessionApiKeys.unbind('session-d');
+  });
+
+  it('expires keys no job took within the TTL', () => {
+    sessionApiKeys.bind('session-e', 'sk-user-e');
+    sessionApiKeys.bind('session-f', 'sk-user-f');
+
+    vi.advanceTimersByTime(60000);
+    expect(sessionApiKeys.take('session-e')).toBe('sk-user-e');
+
+    vi.advanceTimersByTime(1);
+    expect(sessionApiKeys.take('session-f')).toBeNull();
+  });
+
+  it('cleans up expired keys', () => {
+    sessionApiKeys.bind('session-g', 'sk-user-g');
+    vi.advanceTimersByTime(30000);
+    sessionApiKeys.bind('session-h', 'sk-user-h');
+    vi.advanceTimersByTime(30001);
+
+    expect(sessionApiKeys.cleanupExpired()).toBe(1);
+    expect(sessionApiKeys.take('session-h')).toBe('sk-user-h');
+  });
+
+  it('drops a key on unbind', () => {
+    sessionApiKeys.bind('session-i', 'sk-user-i');
+    sessionApiKeys.unbind('session-i');
+
+    expect(sessionApiKeys.take('session-i')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+interface EncryptedKey {
+  iv: Buffer;
+  tag: Buffer;
+  data: Buffer;
+  expiresAt: number;
+}
+
+/**
+ * Users' own API keys bound to their sessions, for the one request that can't
+ * send a header: the /api/generate EventSource. Anyone with the report URL knows
+ * the session ID, so a key pays for a single job: the stream that starts it takes
+ * the key out of the store, and a retry needs it bound again. Keys are held
+ * encrypted (AES-256-GCM, with a secret generated per process) and expire after
+ * USER_API_KEY_TTL_MS if no job takes them. They are never written to the session itself.
+ */
+class SessionApiKeyStore {
+  private keys: Map<string, EncryptedKey> = new Map();
+  private readonly secret = randomBytes(32);
+  private readonly TTL = parseInt(process.env.USER_API_KEY_TTL_MS || '3600000'); // 1 hour default
+
+  bind(sessionId: string, apiKey: string): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.secret, iv);
+    const data = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+
+    this.keys.set(sessionId, { iv, tag: cipher.getAuthTag(), data, expiresAt: Date.now() + this.TTL });
+  }
+
+  /**
+   * Remove and return the session's key, or null if none is bound or it has expired
+   */
+  take(sessionId: string): string | null {
+    const entry = this.keys.get(sessionId);
+    if (!entry) return null;
+
+    this.keys.delete(sessionId);
+    if (Date.now() > entry.expiresAt) return null;
+
+    const decipher = createDecipheriv('aes-256-gcm', this.secret, entry.iv);
+    decipher.setAuthTag(entry.tag);
+    return Buffer.concat([decipher.update(entry.data), decipher.final()]).toString('utf8');
+  }
+
+  unbind(sessionId: string): void {
+    this.keys.delete(sessionId);
+  }
+
+  cleanupExpired(): number {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [sessionId, entry] of this.keys.entries()) {
+      if (now > entry.expiresAt) {
+        this.keys.delete(sessionId);
+        cleaned++;
+      }
+    }
+
+    return cleaned;
+  }
+}
+
+// Singleton instance
+export const sessionApiKeys = new SessionApiKeyStore();
+
+// Auto cleanup every 10 minutes
+setInterval(() => {
+  sessionApiKeys.cleanupExpired();
+}, 10 * 60 * 1000);
@@ -0,0 +1,33 @@
+/**
+ * The user's own API key on the browser side, kept in sessionStorage (this tab
+ * only, cleared when it closes) so the report page can send it with chat and
+ * regeneration requests. The server never accepts it from a URL.
+ */
+
+const STORAGE_KEY = 'userApiKey';
+
+export function loadUserApiKey(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.sessionStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled (e.g. some private browsing modes)
+    return null;
+  }
+}
+
+export function saveUserApiKey(apiKey: string): void {
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, apiKey);
+  } catch {
+    // Storage disabled: the key still works for this page's requests
+  }
+}
+
+/**
+ * The X-User-Api-Key header to add to a request, if the user gave a key
+ */
+export function userApiKeyHeaders(): Record<string, string> {
+  const apiKey = loadUserApiKey();
+  return apiKey ? { 'X-User-Api-Key': apiKey } : {};
+}
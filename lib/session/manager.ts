@@ -17,15 +17,24 @@ class SessionManager {
       fixtureId: params.fixtureId,
       createdAt: now,
       status: 'pending',
+      blueprintId: params.blueprintId,
+      blueprintVersion: params.blueprintVersion,
+      audienceId: params.audienceId,
+      localeId: params.localeId,
       collectedData: {},
+      dataCollectedAt: null,
       partialReports: {},
       categoryReports: {},
       finalReport: null,
+      structuredReport: null,
       chatHistory: [],
+      chatMemory: { summary: '', summarizedCount: 0, pinnedFacts: [] },
+      stageModels: {},
+      usage: [],
     };
 
     this.sessions.set(sessionId, session);
-    console.log(`✓ Session created: ${sessionId} for fixture ${params.fixtureId}`);
+    console.log(`✓ Session created: ${sessionId} for fixture ${params.fixtureId} (blueprint ${params.blueprintId}@${params.blueprintVersion}, audience ${params.audienceId}, locale ${params.localeId})`);
 
     return sessionId;
   }
@@ -74,6 +83,10 @@ class SessionManager {
       };
     }
 
+    if (updates.dataCollectedAt) {
+      session.dataCollectedAt = updates.dataCollectedAt;
+    }
+
     if (updates.partialReport) {
       session.partialReports[updates.partialReport.key] = updates.partialReport.report;
     }
@@ -86,14 +99,55 @@ class SessionManager {
       session.finalReport = updates.finalReport;
     }
 
+    if (updates.structuredReport !== undefined) {
+      session.structuredReport = updates.structuredReport;
+    }
+
     if (updates.chatMessage) {
       session.chatHistory.push(updates.chatMessage);
     }
 
+    if (updates.chatMemory) {
+      session.chatMemory = {
+        ...session.chatMemory,
+        ...updates.chatMemory,
+      };
+    }
+
+    if (updates.stageModels) {
+      session.stageModels = {
+        ...session.stageModels,
+        ...updates.stageModels,
+      };
+    }
+
+    if (updates.usage) {
+      session.usage.push(updates.usage);
+    }
+
     this.sessions.set(sessionId, session);
     return true;
   }
 
+  /**
+   * Clear the previous run's report and error before generating again.
+   * Collected data and chat are kept.
+   */
+  resetReport(sessionId: string): boolean {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      console.warn(`⚠️  Session not found: ${sessionId}`);
+      return false;
+    }
+
+    session.error = undefined;
+    session.partialReports = {};
+    session.categoryReports = {};
+    session.finalReport = null;
+    session.structuredReport = null;
+    return true;
+  }
+
   /**
    * Delete session
    */
@@ -142,6 +196,7 @@ class SessionManager {
       generating: 0,
       completed: 0,
       error: 0,
+      cancelled: 0,
     };
 
     for (const session of this.sessions.values()) {
@@ -1,21 +1,62 @@
+import { AudienceId } from '../report/audiences';
+import type { LocaleId } from '../report/locales';
+import type { ModelStage, ResolvedStageRoute } from '../llm/routing';
+import type { LLMCallUsage } from '../llm/usage';
+import type { FactCheckResult } from '../report/fact-check';
+import type { FinalReport } from '../report/types';
+import type { ChatToolCall } from '../llm/chat-tools';
+import type { RetrievalSource } from '../retrieval/chunks';
 import { FixtureData, FixtureStatistics, Injury, Lineup, H2HMatch, Standing, PredictionData } from '../api-football/types';
 
-export type SessionStatus = 'pending' | 'generating' | 'completed' | 'error';
+export type SessionStatus = 'pending' | 'generating' | 'completed' | 'error' | 'cancelled';
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // Tools the assistant called for this reply
+  toolCalls?: ChatToolCall[];
+  // Report and data excerpts retrieved for this reply
+  sources?: RetrievalSource[];
+}
+
+/**
+ * Something the user asked the assistant to remember for the rest of the chat
+ */
+export interface PinnedFact {
+  id: string;
+  text: string;
+  pinnedAt: number;
+}
+
+/**
+ * What chat keeps of a long conversation beyond the recent messages
+ */
+export interface ChatMemory {
+  // LLM-written summary of chatHistory[0, summarizedCount)
+  summary: string;
+  summarizedCount: number;
+  pinnedFacts: PinnedFact[];
+}
+
+export interface Insight {
+  text: string;
+  // References into the collected data, e.g. "standings[home].form" (lib/report/citations.ts)
+  sources: string[];
 }
 
 export interface PartialReport {
   categoryId: string;
   signalId: string;
   title: string;
-  insights: string[];
+  insights: Insight[];
   narrative: string;
   emoji: string;
   confidence: number;
+  // Numeric claims checked against collectedData (absent when FACT_CHECK_MODE=off)
+  factCheck?: FactCheckResult;
+  // Placeholder text stored because the model failed or returned too little
+  fallback?: boolean;
 }
 
 export interface CategoryReport {
@@ -25,8 +66,11 @@ export interface CategoryReport {
     title: string;
     content: string;
     emoji: string;
+    sources: string[];
   }>;
   talkingPoints: string[];
+  // Placeholder stored because the merge failed or no signal reports were available
+  fallback?: boolean;
 }
 
 export interface CollectedData {
@@ -39,35 +83,75 @@ export interface CollectedData {
   predictions?: PredictionData | null;
 }
 
+// Runtime list of CollectedData keys (the Record type keeps it in sync with the interface)
+const collectedDataKeys: Record<keyof CollectedData, true> = {
+  fixture: true,
+  statistics: true,
+  injuries: true,
+  lineups: true,
+  h2h: true,
+  standings: true,
+  predictions: true,
+};
+
+export const COLLECTED_DATA_KEYS = Object.keys(collectedDataKeys) as Array<keyof CollectedData>;
+
 export interface Session {
   sessionId: string;
   fixtureId: number;
   createdAt: number;
   status: SessionStatus;
   error?: string;
+
+  // Report blueprint this session was generated with (pinned for reproducibility)
+  blueprintId: string;
+  blueprintVersion: string;
+  // Audience profile the report is written for
+  audienceId: AudienceId;
+  // Output language of the report and chat
+  localeId: LocaleId;
   
   // Collected data from API-Football
   collectedData: CollectedData;
+  // Set once data collection finishes (chat opens then, before the report is done)
+  dataCollectedAt: number | null;
   
   // Generated reports
   partialReports: Record<string, PartialReport>; // key: "category.signal"
   categoryReports: Record<string, CategoryReport>; // key: "category"
-  finalReport: string | null;
+  finalReport: string | null; // markdown
+  // The same report as data (null when synthesis fell back to a plain notice)
+  structuredReport: FinalReport | null;
   
   // Chat context
   chatHistory: ChatMessage[];
+  chatMemory: ChatMemory;
+
+  // Provider and model each LLM stage last ran with (see config/llm-routing.yaml)
+  stageModels: Partial<Record<ModelStage, ResolvedStageRoute>>;
+  // Every LLM call made for this session (report, regenerations and chat)
+  usage: LLMCallUsage[];
 }
 
 export interface CreateSessionParams {
   fixtureId: number;
+  blueprintId: string;
+  blueprintVersion: string;
+  audienceId: AudienceId;
+  localeId: LocaleId;
 }
 
 export interface UpdateSessionParams {
   status?: SessionStatus;
   error?: string;
   collectedData?: Partial<CollectedData>;
+  dataCollectedAt?: number;
   partialReport?: { key: string; report: PartialReport };
   categoryReport?: { key: string; report: CategoryReport };
   finalReport?: string;
+  structuredReport?: FinalReport | null;
   chatMessage?: ChatMessage;
+  chatMemory?: Partial<ChatMemory>;
+  stageModels?: Partial<Record<ModelStage, ResolvedStageRoute>>;
+  usage?: LLMCallUsage;
 }
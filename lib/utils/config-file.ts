@@ -0,0 +1,23 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { ValidationError } from '../errors/error-handler';
+
+/**
+ * Read a JSON or YAML config file (by extension) and validate it against a schema.
+ * Throws ValidationError listing every issue.
+ */
+export function readConfigFile<T extends z.ZodTypeAny>(filePath: string, schema: T, description: string): z.output<T> {
+  const raw = readFileSync(filePath, 'utf8');
+  const data: unknown = /\.ya?ml$/i.test(filePath) ? YAML.parse(raw) : JSON.parse(raw);
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new ValidationError(`Invalid ${description} ${filePath}:\n${issues}`);
+  }
+
+  return result.data;
+}
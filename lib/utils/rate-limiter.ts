@@ -35,6 +35,10 @@ class RateLimiter {
     perDay: 50,     // 50 requests per day
   };
 
+  constructor(config: Partial<RateLimitConfig> = {}) {
+    this.updateConfig(config);
+  }
+
   /**
    * Get client identifier from request
    */
@@ -164,6 +168,10 @@ class RateLimiter {
 // Export singleton instance
 export const rateLimiter = new RateLimiter();
 
+// Checks of users' own API keys. Kept apart from the generation limits: users
+// reach for their own key precisely when those are used up.
+export const keyValidationLimiter = new RateLimiter({ perMinute: 5, perHour: 20, perDay: 50 });
+
 // Helper function to format time until reset
 export function formatResetTime(resetTimestamp: number): string {
   const now = Date.now();
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Report blueprints, model routing and prices are read from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./config/blueprints/**/*', './config/llm-routing.yaml', './config/model-prices.yaml'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,123 @@
+/**
+ * Offline report quality evaluation (see README "Evaluating prompt and model changes").
+ *
+ *   npm run eval -- snapshot <fixtureId...>          store CollectedData as eval fixtures
+ *   npm run eval -- run --name <name> [options]      run the pipeline on stored fixtures
+ *   npm run eval -- compare <baseline> <candidate>   write a comparison table
+ *
+ * run options: --fixtures 1208125,... --blueprint <id> --audience <id> --locale <id>
+ * The model configuration comes from the environment as usual (LLM_PROVIDER, LLM_ROUTING_CONFIG, ...).
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { isAudienceId } from '../lib/report/audiences';
+import { isLocaleId } from '../lib/report/locales';
+import { loadEvalFixtures, snapshotEvalFixture } from '../lib/eval/fixtures';
+import { EvalRun, runEvaluation } from '../lib/eval/runner';
+import { formatComparison } from '../lib/eval/compare';
+
+const RESULTS_DIR = path.resolve(process.env.EVAL_RESULTS_DIR || 'eval/results');
+
+function resultPath(name: string): string {
+  return path.join(RESULTS_DIR, `${name}.json`);
+}
+
+function parseFixtureIds(values: string[]): number[] {
+  return values.flatMap((value) => value.split(',')).filter(Boolean).map((value) => {
+    const id = Number.parseInt(value, 10);
+    if (!Number.isInteger(id) || id <= 0) throw new Error(`Invalid fixture ID: ${value}`);
+    return id;
+  });
+}
+
+async function snapshot(args: string[]): Promise<void> {
+  const ids = parseFixtureIds(args);
+  if (ids.length === 0) throw new Error('Usage: snapshot <fixtureId...>');
+
+  for (const id of ids) {
+    const file = await snapshotEvalFixture(id);
+    console.log(`💾 Stored fixture ${id} → ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+async function run(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      name: { type: 'string' },
+      fixtures: { type: 'string' },
+      blueprint: { type: 'string' },
+      audience: { type: 'string' },
+      locale: { type: 'string' },
+    },
+  });
+
+  if (!values.name || !/^[\w.-]+$/.test(values.name)) {
+    throw new Error('Usage: run --name <name> (letters, digits, ".", "-" and "_")');
+  }
+  if (values.audience !== undefined && !isAudienceId(values.audience)) {
+    throw new Error(`Unknown audience: ${values.audience}`);
+  }
+  if (values.locale !== undefined && !isLocaleId(values.locale)) {
+    throw new Error(`Unknown locale: ${values.locale}`);
+  }
+
+  const fixtures = await loadEvalFixtures(values.fixtures ? parseFixtureIds([values.fixtures]) : undefined);
+  if (fixtures.length === 0) throw new Error('No stored fixtures to evaluate');
+
+  const result = await runEvaluation({
+    name: values.name,
+    fixtures,
+    blueprintId: values.blueprint,
+    audienceId: values.audience,
+    localeId: values.locale,
+  });
+
+  const file = resultPath(values.name);
+  await fs.mkdir(RESULTS_DIR, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(result, null, 2) + '\n');
+  console.log(`💾 ${result.summary.completed}/${result.cases.length} fixture(s) scored → ${path.relative(process.cwd(), file)}`);
+}
+
+async function readRun(name: string): Promise<EvalRun> {
+  const file = name.endsWith('.json') ? path.resolve(name) : resultPath(name);
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as EvalRun;
+  } catch {
+    throw new Error(`No evaluation results at ${file} (run "eval run --name ${name}" first)`);
+  }
+}
+
+async function compare(args: string[]): Promise<void> {
+  if (args.length !== 2) throw new Error('Usage: compare <baseline> <candidate>');
+
+  const [baseline, candidate] = await Promise.all(args.map(readRun));
+  const table = formatComparison(baseline, candidate);
+  const file = path.join(RESULTS_DIR, `${baseline.name}-vs-${candidate.name}.md`);
+
+  await fs.mkdir(RESULTS_DIR, { recursive: true });
+  await fs.writeFile(file, table);
+  console.log(table);
+  console.log(`💾 Comparison written to ${path.relative(process.cwd(), file)}`);
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<void>> = { snapshot, run, compare };
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const handler = command ? COMMANDS[command] : undefined;
+  if (!handler) {
+    throw new Error(`Usage: eval <${Object.keys(COMMANDS).join('|')}> ...`);
+  }
+  await handler(args);
+}
+
+main().then(
+  // Open keep-alive sockets and timers shouldn't hold the process
+  () => process.exit(0),
+  (error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+);
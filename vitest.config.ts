@@ -0,0 +1,9 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same as the "@/*" path in tsconfig.json
+    alias: { "@": path.resolve(__dirname) },
+  },
+});